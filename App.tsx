@@ -1,47 +1,124 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { fetchCreativeCalls, fetchExhibits, getOptimizedImageUrl } from './services/api';
-import { ExhibitItem, GalleryItem, PortableTextBlock } from './types';
+import { getAssetDimensions, getOptimizedImageUrl, SUBMISSIONS_PAGE_SIZE } from './services/api';
+import { DataSourceKind, getDataSource } from './services/dataSource';
+import { describeFetchError, GalleryFetchError, toGalleryFetchError } from './services/errors';
+import { isFresh, readCache, revalidate } from './services/cache';
+import { getLastProxyRoute, ProxyRoute, subscribeToProxyRoute } from './services/proxies';
+import { loadBackgroundSwatch, saveBackgroundSwatch } from './services/preferences';
+import { canSaveOffline, loadOfflineExhibitIds, removeExhibitFromOffline, saveExhibitForOffline } from './services/offline';
+import { loadSlideshowSettings, saveSlideshowSettings, SlideshowSettings } from './services/slideshow';
+import { AppRoute, buildShareUrl, ExhibitRoute, getCurrentRoute, HomeTab, navigate, subscribeToRoute } from './services/router';
+import { ExhibitItem, GalleryItem } from './types';
 import ExhibitCard from './components/ExhibitCard';
-import { Loader2, AlertTriangle, ChevronLeft } from './components/Icons';
-
-// Helper to parse hex to rgb
-const hexToRgb = (hex: string) => {
-  const shorthandRegex = /^#?([a-f\d])([a-f\d])([a-f\d])$/i;
-  hex = hex.replace(shorthandRegex, (match, r, g, b) => (void match, r + r + g + g + b + b));
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 0, g: 0, b: 0 };
+import CreativeCallIntro from './components/CreativeCallIntro';
+import UpcomingCallCard from './components/UpcomingCallCard';
+import SearchResults from './components/SearchResults';
+import FavoriteControls from './components/FavoriteControls';
+import SlideScrubber from './components/SlideScrubber';
+import SlideshowControls from './components/SlideshowControls';
+import PaletteInspector from './components/PaletteInspector';
+import OfflineIndicator from './components/OfflineIndicator';
+import ExhibitGrid from './components/ExhibitGrid';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import LoadErrorNotice from './components/LoadErrorNotice';
+import Toast from './components/Toast';
+import Lightbox from './components/Lightbox';
+import BlurHashCanvas from './components/BlurHashCanvas';
+import ResponsiveImage from './components/ResponsiveImage';
+import { isValidBlurHash } from './utils/blurhash';
+import { copyToClipboard, prefetchShareImage, sharePhoto } from './utils/share';
+import { getReadableTextColor, interpolateColor } from './utils/color';
+import { getSwatch, PaletteSwatchKey } from './utils/palette';
+import { buildColorExhibit, getColorFromExhibitId } from './utils/colorSearch';
+import {
+  createCollection,
+  deleteCollection,
+  FAVORITES_EXHIBIT_ID,
+  favoritesToExhibits,
+  FavoritesState,
+  getCollectionId,
+  isFavorite,
+  loadFavorites,
+  saveFavorites,
+  toggleFavorite,
+  toggleInCollection,
+} from './services/favorites';
+import { buildSearchIndex, querySearchIndex } from './utils/search';
+import { getLocale, Locale, subscribeToLocale, t } from './i18n';
+import PortableText from './components/PortableText';
+import { Loader2, CheckCircle, ChevronLeft, Download, Heart, LayoutGrid, RefreshCw, Share, XIcon } from './components/Icons';
+
+// Helper to describe how old cached data is, e.g. "5 minutes ago"
+const formatUpdatedAt = (timestamp: number) => {
+  const relativeTimeFormat = new Intl.RelativeTimeFormat(getLocale(), { numeric: 'auto' });
+  const minutes = Math.round((timestamp - Date.now()) / 60000);
+  if (Math.abs(minutes) < 60) return relativeTimeFormat.format(minutes, 'minute');
+  const hours = Math.round(minutes / 60);
+  if (Math.abs(hours) < 24) return relativeTimeFormat.format(hours, 'hour');
+  return relativeTimeFormat.format(Math.round(hours / 24), 'day');
 };
 
-const renderDescription = (desc: string | PortableTextBlock[] | undefined) => {
-  if (!desc) return null;
-  if (typeof desc === 'string') return desc;
-  if (Array.isArray(desc)) {
-    return desc.map(block => {
-      if (block._type === 'block' && block.children) {
-        return block.children.map(span => span.text).join('');
-      }
-      return '';
-    }).join('\n');
-  }
-  return null;
+// Home feeds that load (and can be retried) independently
+type DataFeed = 'weekly' | 'creative';
+
+const getCacheKeys = (kind: DataSourceKind) => ({
+  weekly: `${kind}:exhibits`,
+  creative: `${kind}:creative-calls`,
+  upcoming: `${kind}:upcoming-calls`,
+});
+
+// Upcoming calls whose start has passed (cached lists, or a server clock behind ours) are not shown
+const filterNotOpened = (calls: ExhibitItem[], now = Date.now()) =>
+  calls.filter(call => {
+    const startsAt = Date.parse(call.creativeCall?.beginAt || '');
+    return isNaN(startsAt) || startsAt > now;
+  });
+
+// Refreshes only return the first page of submissions; keep pages the user already loaded
+const keepLoadedPages = (fresh: ExhibitItem, previous: ExhibitItem | undefined): ExhibitItem => {
+  const loaded = previous?.gallery?.galleryItems?.length || 0;
+  if (!previous || loaded <= (fresh.gallery?.galleryItems?.length || 0)) return fresh;
+  return { ...fresh, gallery: previous.gallery };
+};
+
+const hasIntro = (exhibit: ExhibitItem) => !!exhibit.creativeCall?.overview?.length;
+
+// Slides are the gallery items that actually have an image
+const getSlides = (exhibit: ExhibitItem) => exhibit.gallery?.galleryItems?.filter(i => i.image?.asset) || [];
+
+const getSlideAssetId = (exhibit: ExhibitItem, index: number) => getSlides(exhibit)[index]?.image?.asset?.assetId;
+
+// Paginated Creative Calls may still have photos upstream that are not fetched yet
+const isFullyLoaded = (exhibit: ExhibitItem) => {
+  const loaded = exhibit.gallery?.galleryItems?.length || 0;
+  return (exhibit.gallery?.count ?? loaded) <= loaded;
 };
 
-// Helper to interpolate between two hex colors
-const interpolateColor = (c1: string, c2: string, factor: number) => {
-  const rgb1 = hexToRgb(c1);
-  const rgb2 = hexToRgb(c2);
-  const r = Math.round(rgb1.r + factor * (rgb2.r - rgb1.r));
-  const g = Math.round(rgb1.g + factor * (rgb2.g - rgb1.g));
-  const b = Math.round(rgb1.b + factor * (rgb2.b - rgb1.b));
-  return `rgb(${r}, ${g}, ${b})`;
+// Index of the slide a link points at: by assetId when it has one, else by position; -1 if not loaded
+const findLinkedSlide = (route: ExhibitRoute, slides: GalleryItem[]) => {
+  if (route.photo) return slides.findIndex(item => item.image?.asset?.assetId === route.photo);
+  return route.slide !== undefined && route.slide < slides.length ? route.slide : -1;
 };
 
+// Arrow keys in text fields move the caret, not the carousel
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Start fetching the next page of submissions this many slides before the end
+const LOAD_MORE_THRESHOLD = 3;
+
+// Slides mounted on each side of the current one; the rest are empty snap points
+const SLIDE_WINDOW = 2;
+
+// Galleries with more slides than this get a scrubber instead of dots
+const MAX_DOTS = 15;
+
+// A paused slideshow picks up again after this long without interaction
+const SLIDESHOW_RESUME_MS = 20000;
+
 // Sub-component for individual gallery slides to handle loading state
-const GallerySlide = ({ item }: { item: GalleryItem }) => {
+const GallerySlide = ({ item, onOpen }: { item: GalleryItem; onOpen: () => void }) => {
   const [loaded, setLoaded] = useState(false);
   const [showThumbnail, setShowThumbnail] = useState(true);
   const asset = item.image?.asset;
@@ -54,24 +131,15 @@ const GallerySlide = ({ item }: { item: GalleryItem }) => {
   }, [loaded]);
 
   if (!asset) return null;
-  const highResUrl = getOptimizedImageUrl(asset.url, 1200);
-  const thumbnailUrl = getOptimizedImageUrl(asset.url, 400);
-
-  // Calculate Dimensions from Metadata or URL
-  let width = asset.metadata?.dimensions?.width;
-  let height = asset.metadata?.dimensions?.height;
-
-  if ((!width || !height) && asset.url) {
-    const match = asset.url.match(/-(\d+)x(\d+)\./);
-    if (match) {
-      width = parseInt(match[1], 10);
-      height = parseInt(match[2], 10);
-    }
-  }
+  const blurHash = asset.metadata?.blurHash;
 
-  // Fallback defaults if detection fails
-  const finalWidth = width || 820;
-  const finalHeight = height || 1000;
+  // Dimensions from metadata or URL, with fallback defaults if detection fails
+  const dimensions = getAssetDimensions(asset);
+  const finalWidth = dimensions?.width || 820;
+  const finalHeight = dimensions?.height || 1000;
+
+  // The slide is capped at 90vw wide and 70vh tall, whichever binds first
+  const sizes = `min(90vw, ${((70 * finalWidth) / finalHeight).toFixed(1)}vh)`;
 
   return (
     <div className="w-full h-full flex flex-col items-center justify-center gap-4">
@@ -79,21 +147,36 @@ const GallerySlide = ({ item }: { item: GalleryItem }) => {
         Image Container
         Using CSS Grid to stack placeholder and image perfectly
       */}
-      <div className="grid place-items-center w-full">
-
-         {/* Thumbnail (Preview) - Fades out after delay */}
-         <img
-           src={thumbnailUrl}
-           alt=""
-           width={finalWidth}
-           height={finalHeight}
-           className={`col-start-1 row-start-1 max-w-[90vw] max-h-[60vh] md:max-h-[70vh] w-full h-full object-contain transition-opacity duration-700 linear ${showThumbnail ? 'opacity-100' : 'opacity-0'}`}
-         />
+      <div
+        className="grid place-items-center w-full cursor-zoom-in"
+        onClick={(e) => {
+          e.stopPropagation();
+          onOpen();
+        }}
+      >
+
+         {/* Placeholder (BlurHash, or a small thumbnail without one) - Fades out after delay */}
+         {isValidBlurHash(blurHash) ? (
+           <BlurHashCanvas
+             hash={blurHash}
+             aspectRatio={finalWidth / finalHeight}
+             className={`col-start-1 row-start-1 max-w-[90vw] max-h-[60vh] md:max-h-[70vh] w-full h-full object-contain transition-opacity duration-700 linear ${showThumbnail ? 'opacity-100' : 'opacity-0'}`}
+           />
+         ) : (
+           <img
+             src={getOptimizedImageUrl(asset.url, 400)}
+             alt=""
+             width={finalWidth}
+             height={finalHeight}
+             className={`col-start-1 row-start-1 max-w-[90vw] max-h-[60vh] md:max-h-[70vh] w-full h-full object-contain transition-opacity duration-700 linear ${showThumbnail ? 'opacity-100' : 'opacity-0'}`}
+           />
+         )}
 
          {/* High Res Image (Overlay) - Fades in when loaded */}
-         <img
-             src={highResUrl}
-             alt={item.title || "Gallery Item"}
+         <ResponsiveImage
+             asset={asset}
+             sizes={sizes}
+             alt={item.title || t('detail.photoAlt')}
              width={finalWidth}
              height={finalHeight}
              className={`col-start-1 row-start-1 z-10 max-w-[90vw] max-h-[60vh] md:max-h-[70vh] w-full h-full object-contain transition-opacity duration-700 linear ${loaded ? 'opacity-100' : 'opacity-0'}`}
@@ -109,9 +192,10 @@ const GallerySlide = ({ item }: { item: GalleryItem }) => {
               {item.title}
           </span>
           {item.desc && (
-             <span className="mt-1 text-sm opacity-80 max-w-2xl line-clamp-3">
-               {renderDescription(item.desc)}
-             </span>
+             <PortableText
+               value={item.desc}
+               className="mt-1 text-sm opacity-80 max-w-2xl line-clamp-3"
+             />
           )}
       </div>
     </div>
@@ -119,13 +203,60 @@ const GallerySlide = ({ item }: { item: GalleryItem }) => {
 };
 
 const App: React.FC = () => {
+  // Backend is chosen once per session (CDN or local fixtures)
+  const [dataSource] = useState(() => getDataSource());
+  // Which proxy route served the latest data (shown as a footnote on Home)
+  const [dataRoute, setDataRoute] = useState<ProxyRoute | null>(getLastProxyRoute);
   const [exhibits, setExhibits] = useState<ExhibitItem[]>([]);
   const [creativeCalls, setCreativeCalls] = useState<ExhibitItem[]>([]);
-  const [homeTab, setHomeTab] = useState<'weekly' | 'creative'>('weekly');
+  const [upcomingCalls, setUpcomingCalls] = useState<ExhibitItem[]>([]);
+  const [homeTab, setHomeTab] = useState<HomeTab>(() => {
+    const route = getCurrentRoute();
+    return route.name === 'home' ? route.tab : 'weekly';
+  });
+  const [favorites, setFavorites] = useState<FavoritesState>(loadFavorites);
+  // UI language; t() reads it directly, this state re-renders the tree when it changes
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [creativeCallsError, setCreativeCallsError] = useState<string | null>(null);
+  const [weeklyError, setWeeklyError] = useState<GalleryFetchError | null>(null);
+  const [creativeCallsError, setCreativeCallsError] = useState<GalleryFetchError | null>(null);
+  const [retryingFeed, setRetryingFeed] = useState<DataFeed | null>(null);
   const [selectedExhibit, setSelectedExhibit] = useState<ExhibitItem | null>(null);
+  const [showIntro, setShowIntro] = useState(false);
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+  const [gridView, setGridView] = useState(false);
+  // Palette swatch that drives the adaptive background
+  const [backgroundSwatch, setBackgroundSwatch] = useState<PaletteSwatchKey>(loadBackgroundSwatch);
+  // Exhibits whose photos were saved for offline use
+  const [offlineExhibitIds, setOfflineExhibitIds] = useState<string[]>(loadOfflineExhibitIds);
+  const [savingOffline, setSavingOffline] = useState(false);
+  const [toast, setToast] = useState({ message: '', visible: false });
+  const toastTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [searchQuery, setSearchQuery] = useState(() => getCurrentRoute().query || '');
+  // Color search on the home view, as #rrggbb
+  const [colorQuery, setColorQuery] = useState<string | null>(() => {
+    const route = getCurrentRoute();
+    return route.name === 'home' ? route.color ?? null : null;
+  });
+  // Stale-while-revalidate bookkeeping
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const hasSyncedUrl = useRef(false);
+
+  // Favorites tab: virtual exhibits built from saved photos
+  // Titles are localized, so rebuild on language changes too
+  const favoriteExhibits = React.useMemo(() => favoritesToExhibits(favorites), [favorites, locale]);
+  const favoriteExhibitsRef = useRef<ExhibitItem[]>([]);
+  favoriteExhibitsRef.current = favoriteExhibits;
+  // Everything a route can point at, for back/forward navigation
+  const routableExhibitsRef = useRef<ExhibitItem[]>([]);
+
+  // Color search results, as a virtual exhibit over both home lists (rebuilt when the language changes)
+  const colorExhibit = React.useMemo(
+    () => (colorQuery ? buildColorExhibit([...exhibits, ...creativeCalls], colorQuery) : null),
+    [colorQuery, exhibits, creativeCalls, locale]
+  );
+  routableExhibitsRef.current = [...exhibits, ...creativeCalls, ...favoriteExhibits, ...(colorExhibit ? [colorExhibit] : [])];
 
   // Home tab pill pinning (keep always visible after scrolling)
   const tabsAnchorRef = useRef<HTMLDivElement>(null);
@@ -140,95 +271,224 @@ const App: React.FC = () => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const mainRef = useRef<HTMLDivElement>(null);
   const isTransitioning = useRef(false);
+  const isLoadingMore = useRef(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Why the last page of submissions failed; shown on the trailing slide with a retry
+  const [loadMoreError, setLoadMoreError] = useState<GalleryFetchError | null>(null);
+  // Deep link to a slide beyond the loaded pages, resolved as more pages arrive
+  const [pendingPhoto, setPendingPhoto] = useState<ExhibitRoute | null>(null);
+
+  // Slideshow (autoplay) state
+  const [slideshowSettings, setSlideshowSettings] = useState<SlideshowSettings>(loadSlideshowSettings);
+  const [playing, setPlaying] = useState(false);
+  const [interactionPaused, setInteractionPaused] = useState(false);
+  const [tabHidden, setTabHidden] = useState(() => document.visibilityState === 'hidden');
+  // Bumped when the slideshow waits a round (e.g. for the next page) so the countdown restarts
+  const [slideshowCycle, setSlideshowCycle] = useState(0);
+  const advanceSlideshowRef = useRef<() => void>(() => {});
+
+  const showToast = (message: string, duration = 2500) => {
+    setToast({ message, visible: true });
+    clearTimeout(toastTimer.current);
+    toastTimer.current = setTimeout(() => setToast(prev => ({ ...prev, visible: false })), duration);
+  };
 
-  // Sync state from URL parameters
-  const syncStateFromUrl = useCallback((items: ExhibitItem[]) => {
-    const params = new URLSearchParams(window.location.search);
-    const exhibitId = params.get('exhibit');
-    const slideIndex = params.get('slide');
+  // Find the linked photo by assetId, falling back to the slide index when the
+  // link predates asset ids. A slide in a page that isn't loaded yet is left
+  // pending: the last loaded slide shows until later pages turn it up.
+  const resolveSlide = (route: ExhibitRoute, exhibit: ExhibitItem): ExhibitRoute => {
+    if (route.slide === undefined) return route;
+    const slides = getSlides(exhibit);
+    const linkedIndex = findLinkedSlide(route, slides);
+    if (linkedIndex !== -1) return { ...route, slide: linkedIndex };
+    if (!isFullyLoaded(exhibit)) {
+      setPendingPhoto(route);
+      return { ...route, slide: Math.max(0, Math.min(route.slide, slides.length - 1)) };
+    }
+    if (slides.length === 0) return route;
 
-    if (exhibitId) {
-      const foundExhibit = items.find(e => e.identifier === exhibitId);
+    showToast(t('toast.photoRemoved'), 5000);
+    const slide = Math.min(route.slide, slides.length - 1);
+    return { ...route, slide, photo: slides[slide].image?.asset?.assetId, zoom: false };
+  };
+
+  // Apply a route to the view state. Returns the route actually shown, which
+  // falls back to home when the exhibit is unknown.
+  const applyRoute = useCallback((route: AppRoute, items: ExhibitItem[]): AppRoute => {
+    setSearchQuery(route.query || '');
+    setPendingPhoto(null);
+
+    if (route.name === 'exhibit') {
+      // Color search links rebuild their results from whatever is loaded
+      const color = getColorFromExhibitId(route.exhibitId);
+      const foundExhibit = items.find(e => e.identifier === route.exhibitId)
+        || (color ? buildColorExhibit(items.filter(e => !e.identifier.startsWith(FAVORITES_EXHIBIT_ID)), color) : undefined);
       if (foundExhibit) {
+        if (color) setColorQuery(color);
+        const shown = resolveSlide(route, foundExhibit);
         setSelectedExhibit(foundExhibit);
-        if (slideIndex) {
-          const idx = parseInt(slideIndex, 10);
-          if (!isNaN(idx) && idx >= 0) {
-            setCurrentIndex(idx);
-            // We need to wait for render to scroll, handled in useEffect
-          } else {
-            setCurrentIndex(0);
-          }
-        } else {
-          setCurrentIndex(0);
-        }
+        setShowIntro(shown.slide === undefined && !shown.grid && hasIntro(foundExhibit));
+        setLightboxOpen(!!shown.zoom && !shown.grid);
+        setGridView(!!shown.grid);
+        setCurrentIndex(shown.slide ?? 0);
+        return shown;
       }
-    } else {
-      setSelectedExhibit(null);
-      setCurrentIndex(0);
     }
+
+    const homeRoute: AppRoute = route.name === 'home' ? route : { name: 'home', tab: 'weekly', query: route.query };
+    setHomeTab(homeRoute.tab);
+    setColorQuery(homeRoute.color ?? null);
+    setSelectedExhibit(null);
+    setShowIntro(false);
+    setLightboxOpen(false);
+    setGridView(false);
+    setCurrentIndex(0);
+    return homeRoute;
   }, []);
 
-  useEffect(() => {
-    const loadData = async () => {
+  // First render with data: show the URL's route and rewrite legacy or unknown URLs to the canonical form
+  const syncInitialRoute = useCallback((items: ExhibitItem[]) => {
+    if (hasSyncedUrl.current) return;
+    hasSyncedUrl.current = true;
+    navigate(applyRoute(getCurrentRoute(), items), { replace: true });
+  }, [applyRoute]);
+
+  const loadData = useCallback(async (force = false) => {
+    const { weekly: weeklyKey, creative: creativeKey, upcoming: upcomingKey } = getCacheKeys(dataSource.kind);
+    const cachedWeekly = readCache<ExhibitItem[]>(weeklyKey);
+    const cachedCreative = readCache<ExhibitItem[]>(creativeKey);
+    const cachedUpcoming = readCache<ExhibitItem[]>(upcomingKey);
+
+    setWeeklyError(null);
+    setCreativeCallsError(null);
+
+    // Render the last known result instantly, then revalidate in the background.
+    // A forced refresh keeps what is on screen instead of going back to the cache.
+    if (!force && cachedWeekly) {
+      setExhibits(cachedWeekly.value);
+      if (cachedCreative) setCreativeCalls(cachedCreative.value);
+      if (cachedUpcoming) setUpcomingCalls(filterNotOpened(cachedUpcoming.value));
+      setLastUpdatedAt(Math.min(cachedWeekly.storedAt, cachedCreative?.storedAt ?? cachedWeekly.storedAt));
+      syncInitialRoute([...cachedWeekly.value, ...(cachedCreative?.value || []), ...favoriteExhibitsRef.current]);
+      setLoading(false);
+    } else if (!force) {
       setLoading(true);
-      setError(null);
-      setCreativeCallsError(null);
-      try {
-        const [weeklyResult, creativeResult] = await Promise.allSettled([
-          fetchExhibits(),
-          fetchCreativeCalls(),
-        ]);
-
-        if (weeklyResult.status === 'fulfilled') {
-          setExhibits(weeklyResult.value);
-        } else {
-          setError('Unable to retrieve gallery data.');
-        }
+    }
 
-        if (creativeResult.status === 'fulfilled') {
-          setCreativeCalls(creativeResult.value);
-        } else {
-          setCreativeCalls([]);
-          setCreativeCallsError('Unable to retrieve Creative Call data.');
-        }
+    if (!force && isFresh(cachedWeekly) && isFresh(cachedCreative)) return;
 
-        const weeklyItems = weeklyResult.status === 'fulfilled' ? weeklyResult.value : [];
-        const creativeItems = creativeResult.status === 'fulfilled' ? creativeResult.value : [];
-        syncStateFromUrl([...weeklyItems, ...creativeItems]);
-      } catch (err) {
-        setError("Unable to retrieve gallery data.");
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadData();
+    setRefreshing(true);
+    const [weeklyResult, creativeResult, upcomingResult] = await Promise.allSettled([
+      revalidate(weeklyKey, dataSource.fetchExhibits),
+      revalidate(creativeKey, dataSource.fetchCreativeCalls),
+      revalidate(upcomingKey, dataSource.fetchUpcomingCreativeCalls),
+    ]);
 
-    const handlePopState = () => {
-      // Re-sync when browser back/forward is pressed
-      // We need the exhibits data which we might not have access to in this closure easily
-      // if we don't use a ref or dependency.
-      // Ideally, we'd trigger a re-sync.
-      // Since exhibits state is stable after load, we can depend on it?
-      // Actually, React state in event listener might be stale.
-      // Use URLSearchParams directly in a way that depends on `exhibits`.
-    };
+    const weeklyEntry = weeklyResult.status === 'fulfilled' ? weeklyResult.value : cachedWeekly;
+    const creativeEntry = creativeResult.status === 'fulfilled' ? creativeResult.value : cachedCreative;
 
-    window.addEventListener('popstate', handlePopState);
-    return () => window.removeEventListener('popstate', handlePopState);
-  }, []); // Run once on mount
+    // Each feed fails on its own: the other one still renders
+    if (weeklyResult.status === 'fulfilled') {
+      setExhibits(weeklyResult.value.value);
+    } else if (!cachedWeekly) {
+      setWeeklyError(toGalleryFetchError(weeklyResult.reason));
+    }
+
+    if (creativeResult.status === 'fulfilled') {
+      const freshCalls = creativeResult.value.value;
+      setCreativeCalls(prev => freshCalls.map(call => keepLoadedPages(call, prev.find(c => c.identifier === call.identifier))));
+    } else if (!cachedCreative) {
+      setCreativeCalls([]);
+      setCreativeCallsError(toGalleryFetchError(creativeResult.reason));
+    }
+
+    // A manual refresh that falls back to cached data should still say why
+    const refreshFailure = [weeklyResult, creativeResult].find(result => result.status === 'rejected');
+    if (force && refreshFailure?.status === 'rejected' && (cachedWeekly || cachedCreative)) {
+      showToast(t('errors.refreshFailed', { reason: describeFetchError(refreshFailure.reason) }), 5000);
+    }
+
+    // Upcoming calls are optional: keep whatever we had if the refresh fails
+    if (upcomingResult.status === 'fulfilled') {
+      setUpcomingCalls(filterNotOpened(upcomingResult.value.value));
+    } else {
+      console.warn('Unable to retrieve upcoming Creative Calls', upcomingResult.reason);
+    }
+
+    const storedAts = [weeklyEntry?.storedAt, creativeEntry?.storedAt].filter((t): t is number => t !== undefined);
+    if (storedAts.length > 0) setLastUpdatedAt(Math.min(...storedAts));
+
+    const allItems = [...(weeklyEntry?.value || []), ...(creativeEntry?.value || [])];
+    if (!hasSyncedUrl.current) {
+      syncInitialRoute([...allItems, ...favoriteExhibitsRef.current]);
+    } else {
+      // Swap the open exhibit for its refreshed copy so the detail view sees new items
+      setSelectedExhibit(prev => {
+        const fresh = prev && allItems.find(e => e.identifier === prev.identifier);
+        return fresh ? keepLoadedPages(fresh, prev) : prev;
+      });
+    }
+
+    setRefreshing(false);
+    setLoading(false);
+  }, [dataSource, syncInitialRoute]);
 
-  // Effect to handle PopState with fresh data
   useEffect(() => {
-    const handlePopState = () => {
-      const allItems = [...exhibits, ...creativeCalls];
-      if (allItems.length > 0) {
-        syncStateFromUrl(allItems);
+    loadData();
+  }, [loadData]); // Run once on mount
+
+  // Re-runs only the fetch behind one tab, leaving everything else on screen
+  const retryFeed = useCallback(async (feed: DataFeed) => {
+    const keys = getCacheKeys(dataSource.kind);
+    setRetryingFeed(feed);
+    try {
+      if (feed === 'weekly') {
+        const entry = await revalidate(keys.weekly, dataSource.fetchExhibits);
+        setExhibits(entry.value);
+        setWeeklyError(null);
+      } else {
+        const entry = await revalidate(keys.creative, dataSource.fetchCreativeCalls);
+        setCreativeCalls(entry.value);
+        setCreativeCallsError(null);
+        revalidate(keys.upcoming, dataSource.fetchUpcomingCreativeCalls).then(
+          upcoming => setUpcomingCalls(filterNotOpened(upcoming.value)),
+          err => console.warn('Unable to retrieve upcoming Creative Calls', err)
+        );
       }
-    };
-    window.addEventListener('popstate', handlePopState);
-    return () => window.removeEventListener('popstate', handlePopState);
-  }, [exhibits, creativeCalls, syncStateFromUrl]);
+      setLastUpdatedAt(prev => prev ?? Date.now());
+    } catch (err) {
+      const error = toGalleryFetchError(err);
+      if (feed === 'weekly') setWeeklyError(error);
+      else setCreativeCallsError(error);
+    } finally {
+      setRetryingFeed(null);
+    }
+  }, [dataSource]);
+
+  useEffect(() => subscribeToProxyRoute(setDataRoute), []);
+
+  // An upcoming call just opened: move it into the regular list, then fetch its submissions.
+  // Only once per call, however often the card reports it.
+  const openedCallIdsRef = useRef(new Set<string>());
+  const handleUpcomingOpen = useCallback((call: ExhibitItem) => {
+    if (openedCallIdsRef.current.has(call.identifier)) return;
+    openedCallIdsRef.current.add(call.identifier);
+    setUpcomingCalls(prev => prev.filter(c => c.identifier !== call.identifier));
+    setCreativeCalls(prev => (prev.some(c => c.identifier === call.identifier) ? prev : [call, ...prev]));
+    loadData(true);
+  }, [loadData]);
+
+  // Browser back/forward: re-apply the route, including the slide within the same exhibit
+  useEffect(() => subscribeToRoute(route => {
+    if (routableExhibitsRef.current.length === 0) return;
+    const shown = applyRoute(route, routableExhibitsRef.current);
+    if (shown.name === 'exhibit') jumpToSlide(shown.slide ?? 0);
+  }), [applyRoute]);
+
+  // Persist favorites and collections locally
+  useEffect(() => {
+    saveFavorites(favorites);
+  }, [favorites]);
 
   // Effect to scroll to currentIndex when exhibit opens or index changes
   useEffect(() => {
@@ -239,47 +499,212 @@ const App: React.FC = () => {
         behavior: 'instant' // Instant for initial load, user interaction handles smooth
       });
     }
-  }, [selectedExhibit]); // Only on exhibit change/open. Scroll handle manages its own updates.
+  }, [selectedExhibit?.identifier]); // Only on exhibit change/open. Scroll handle manages its own updates.
 
-  const handleExhibitClick = (exhibit: ExhibitItem, initialIndex: number = 0) => {
+  // Opening without an explicit slide shows the Creative Call intro, when there is one
+  const handleExhibitClick = (exhibit: ExhibitItem, requestedIndex?: number, { replace = false } = {}) => {
+    const initialIndex = requestedIndex ?? 0;
+    const withIntro = requestedIndex === undefined && hasIntro(exhibit);
     setSelectedExhibit(exhibit);
     setCurrentIndex(initialIndex);
+    setShowIntro(withIntro);
+    setGridView(false);
 
-    // Push state for entering the exhibit
-    const url = new URL(window.location.href);
-    url.searchParams.set('exhibit', exhibit.identifier);
-    url.searchParams.set('slide', initialIndex.toString());
-    window.history.pushState({}, '', url.toString());
+    navigate({
+      name: 'exhibit',
+      exhibitId: exhibit.identifier,
+      slide: withIntro ? undefined : initialIndex,
+      photo: withIntro ? undefined : getSlideAssetId(exhibit, initialIndex),
+      query: searchQuery,
+    }, { replace });
 
     window.scrollTo({ top: 0, behavior: 'instant' });
+    jumpToSlide(initialIndex);
+  };
 
-    // Force scroll after render
+  // Force the carousel onto a slide once the current render has committed
+  const jumpToSlide = (index: number) => {
     setTimeout(() => {
-        if (scrollContainerRef.current) {
-            scrollContainerRef.current.scrollTo({
-                left: scrollContainerRef.current.clientWidth * initialIndex,
-                behavior: 'instant'
-            });
-        }
+      if (scrollContainerRef.current) {
+        scrollContainerRef.current.scrollTo({
+          left: scrollContainerRef.current.clientWidth * index,
+          behavior: 'instant'
+        });
+      }
     }, 0);
   };
 
+  // Route for the open exhibit at `slide`; no-op outside the detail view
+  const navigateToSlide = (slide: number | undefined, { zoom = false, grid = false, replace = false } = {}) => {
+    if (!selectedExhibit) return;
+    const photo = slide === undefined ? undefined : getSlideAssetId(selectedExhibit, slide);
+    navigate({ name: 'exhibit', exhibitId: selectedExhibit.identifier, slide, photo, zoom, grid, query: searchQuery }, { replace });
+  };
+
+  // Start downloading the photo once the user reaches for Share, so the click can attach it
+  const prefetchCurrentShareImage = () => {
+    const item = galleryItems[currentIndex];
+    const asset = item?.image?.asset;
+    if (!selectedExhibit || !asset) return;
+    prefetchShareImage(getOptimizedImageUrl(asset.url, 1200), item.title || selectedExhibit.title);
+  };
+
+  const handleShare = async () => {
+    const item = galleryItems[currentIndex];
+    if (!selectedExhibit || !item) return;
+
+    // Canonical deep link to this exhibit and slide
+    const asset = item.image?.asset;
+    const url = buildShareUrl({
+      name: 'exhibit',
+      exhibitId: selectedExhibit.identifier,
+      slide: currentIndex,
+      photo: asset?.assetId,
+    });
+
+    const outcome = await sharePhoto({
+      title: item.title || selectedExhibit.title,
+      text: item.title ? `${item.title} — ${selectedExhibit.title}` : selectedExhibit.title,
+      url,
+      imageUrl: asset ? getOptimizedImageUrl(asset.url, 1200) : undefined,
+    });
+
+    if (outcome === 'copied') showToast(t('toast.linkCopied'));
+    else if (outcome === 'failed') showToast(t('toast.shareFailed'));
+  };
+
+  // Save (or drop) the open exhibit's photos in the service worker's offline cache
+  const handleToggleOffline = async () => {
+    if (!selectedExhibit || savingOffline) return;
+    if (!canSaveOffline()) {
+      showToast(t('toast.offlineUnavailable'));
+      return;
+    }
+
+    const exhibit = selectedExhibit;
+    setSavingOffline(true);
+    try {
+      if (offlineExhibitIds.includes(exhibit.identifier)) {
+        await removeExhibitFromOffline(exhibit);
+        showToast(t('toast.offlineRemoved'));
+      } else {
+        const saved = await saveExhibitForOffline(exhibit);
+        showToast(saved > 0 ? t('toast.offlineSaved', { count: saved }) : t('toast.offlineFailed'));
+      }
+      setOfflineExhibitIds(loadOfflineExhibitIds());
+    } catch (err) {
+      console.warn(`Unable to update offline copy of ${exhibit.identifier}`, err);
+      showToast(t('toast.offlineFailed'));
+    } finally {
+      setSavingOffline(false);
+    }
+  };
+
+  const openLightbox = (index: number) => {
+    setLightboxOpen(true);
+    navigateToSlide(index, { zoom: true });
+  };
+
+  const closeLightbox = () => {
+    setLightboxOpen(false);
+    navigateToSlide(currentIndex, { replace: true });
+  };
+
+  // Lightbox navigation drives the carousel underneath so both stay on the same slide
+  const handleLightboxIndexChange = (index: number) => {
+    setCurrentIndex(index);
+    navigateToSlide(index, { zoom: true, replace: true });
+    if (scrollContainerRef.current) {
+      scrollContainerRef.current.scrollTo({
+        left: scrollContainerRef.current.clientWidth * index,
+        behavior: 'instant'
+      });
+    }
+  };
+
+  const openGrid = () => {
+    setGridView(true);
+    navigateToSlide(currentIndex, { grid: true });
+  };
+
+  // Picking a tile swaps the grid's history entry for the chosen slide
+  const handleGridSelect = (index: number) => {
+    setGridView(false);
+    setCurrentIndex(index);
+    navigateToSlide(index, { replace: true });
+    window.scrollTo({ top: 0, behavior: 'instant' });
+  };
+
+  const closeGrid = () => handleGridSelect(currentIndex);
+
+  // The carousel remounts when leaving the grid; put it back on the current slide
+  useEffect(() => {
+    if (!gridView && scrollContainerRef.current) {
+      scrollContainerRef.current.scrollTo({
+        left: scrollContainerRef.current.clientWidth * currentIndex,
+        behavior: 'instant'
+      });
+    }
+  }, [gridView]);
+
+  // Leave the Creative Call intro for the submissions carousel
+  const handleStartSubmissions = () => {
+    if (!selectedExhibit) return;
+    setShowIntro(false);
+    setCurrentIndex(0);
+    navigateToSlide(0);
+  };
+
   const handleBack = () => {
     setSelectedExhibit(null);
+    setShowIntro(false);
+    setLightboxOpen(false);
+    setGridView(false);
     setCurrentIndex(0);
-    // Push state for returning home
-    window.history.pushState({}, '', window.location.pathname);
+    // Return to the tab the exhibit was opened from, keeping an active search
+    navigate({ name: 'home', tab: homeTab, query: searchQuery, color: colorQuery ?? undefined });
+  };
+
+  const handleTabChange = (tab: HomeTab) => {
+    setHomeTab(tab);
+    navigate({ name: 'home', tab, query: searchQuery, color: colorQuery ?? undefined });
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    // Reflect the query in the URL without adding history entries per keystroke
+    navigate({ name: 'home', tab: homeTab, query: value, color: colorQuery ?? undefined }, { replace: true });
   };
 
+  const handleColorChange = (color: string | null) => {
+    setColorQuery(color);
+    navigate({ name: 'home', tab: homeTab, query: searchQuery, color: color ?? undefined }, { replace: true });
+  };
+
+  // Search across both home lists
+  const searchIndex = React.useMemo(() => buildSearchIndex([...exhibits, ...creativeCalls]), [exhibits, creativeCalls]);
+  const searchHits = React.useMemo(() => querySearchIndex(searchIndex, searchQuery), [searchIndex, searchQuery]);
+
   // Pre-calculate colors for the current gallery
   const galleryColors = React.useMemo(() => {
     if (!selectedExhibit) return [];
-    const coverColor = selectedExhibit.coverImages?.[0]?.asset?.metadata?.palette?.dominant?.background || '#2c2435';
+    const coverPalette = selectedExhibit.coverImages?.[0]?.asset?.metadata?.palette;
+    const coverColor = getSwatch(coverPalette, backgroundSwatch)?.background || '#2c2435';
     // Map items to their palette color or fallback
     return (selectedExhibit.gallery?.galleryItems?.filter(i => i.image?.asset) || []).map(item =>
-       item.image?.asset?.metadata?.palette?.dominant?.background || coverColor
+       getSwatch(item.image?.asset?.metadata?.palette, backgroundSwatch)?.background || coverColor
     );
-  }, [selectedExhibit]);
+  }, [selectedExhibit, backgroundSwatch]);
+
+  // Each slide's preferred text color; checked for contrast against whatever background is showing
+  const galleryForegrounds = React.useMemo(() => {
+    if (!selectedExhibit) return [];
+    const coverPalette = selectedExhibit.coverImages?.[0]?.asset?.metadata?.palette;
+    const coverForeground = getSwatch(coverPalette, backgroundSwatch)?.foreground;
+    return (selectedExhibit.gallery?.galleryItems?.filter(i => i.image?.asset) || []).map(item =>
+       getSwatch(item.image?.asset?.metadata?.palette, backgroundSwatch)?.foreground || coverForeground
+    );
+  }, [selectedExhibit, backgroundSwatch]);
 
   const handleScroll = () => {
     if (scrollContainerRef.current) {
@@ -291,12 +716,7 @@ const App: React.FC = () => {
         setCurrentIndex(index);
 
         // Update URL quietly (replaceState) when scrolling to avoid polluting history
-        if (selectedExhibit) {
-           const url = new URL(window.location.href);
-           url.searchParams.set('exhibit', selectedExhibit.identifier);
-           url.searchParams.set('slide', index.toString());
-           window.history.replaceState({}, '', url.toString());
-        }
+        navigateToSlide(index, { zoom: lightboxOpen, replace: true });
       }
 
       // Continuous Linear Color Interpolation
@@ -314,7 +734,9 @@ const App: React.FC = () => {
         const color1 = galleryColors[safeIndex1];
         const color2 = galleryColors[safeIndex2];
 
+        // Blend in OKLCH so midpoints keep their saturation instead of turning muddy
         const newColor = interpolateColor(color1, color2, factor);
+        const newTextColor = getReadableTextColor(newColor, galleryForegrounds[factor < 0.5 ? safeIndex1 : safeIndex2]);
 
         // Apply directly to DOM for instant feedback (bypassing React render cycle)
         if (mainRef.current) {
@@ -323,6 +745,7 @@ const App: React.FC = () => {
              mainRef.current.style.transition = 'none';
           }
           mainRef.current.style.backgroundColor = newColor;
+          mainRef.current.style.color = newTextColor;
         }
         if (!isTransitioning.current) {
             document.body.style.transition = 'none';
@@ -359,14 +782,178 @@ const App: React.FC = () => {
   };
 
   // Filter valid items for the gallery view
-  const galleryItems = selectedExhibit?.gallery?.galleryItems?.filter(i => i.image?.asset) || [];
+  const galleryItems = selectedExhibit ? getSlides(selectedExhibit) : [];
+  const currentAssetId = galleryItems[currentIndex]?.image?.asset?.assetId;
+
+  // Items still available upstream but not fetched yet (paginated Creative Calls)
+  const loadedItemCount = selectedExhibit?.gallery?.galleryItems?.length || 0;
+  const remainingItemCount = Math.max(0, (selectedExhibit?.gallery?.count ?? loadedItemCount) - loadedItemCount);
+  const totalSlideCount = galleryItems.length + remainingItemCount;
+
+  // Resolves false when the page couldn't be fetched
+  const loadMoreItems = useCallback(async () => {
+    if (!selectedExhibit || remainingItemCount === 0 || isLoadingMore.current) return true;
+    const identifier = selectedExhibit.identifier;
+    const offset = loadedItemCount;
+
+    isLoadingMore.current = true;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const page = await dataSource.fetchSubmissionPage(identifier, offset, SUBMISSIONS_PAGE_SIZE);
+      const appendPage = (exhibit: ExhibitItem): ExhibitItem => {
+        const existing = exhibit.gallery?.galleryItems || [];
+        // Ignore the page if the gallery changed underneath us (e.g. a refresh)
+        if (exhibit.identifier !== identifier || existing.length !== offset) return exhibit;
+        return {
+          ...exhibit,
+          gallery: { ...exhibit.gallery, count: page.total, galleryItems: [...existing, ...page.items] },
+        };
+      };
+      setSelectedExhibit(prev => (prev ? appendPage(prev) : prev));
+      setCreativeCalls(prev => prev.map(appendPage));
+      return true;
+    } catch (err) {
+      console.warn(`Unable to load more submissions for ${identifier}`, err);
+      setLoadMoreError(toGalleryFetchError(err));
+      return false;
+    } finally {
+      isLoadingMore.current = false;
+      setLoadingMore(false);
+    }
+  }, [dataSource, selectedExhibit, loadedItemCount, remainingItemCount]);
+
+  // A failure belongs to the exhibit it happened in
+  useEffect(() => {
+    setLoadMoreError(null);
+  }, [selectedExhibit?.identifier]);
+
+  // Lazily fetch the next page as the user nears the end of the loaded slides
+  useEffect(() => {
+    if (remainingItemCount > 0 && galleryItems.length - currentIndex <= LOAD_MORE_THRESHOLD) {
+      loadMoreItems();
+    }
+  }, [currentIndex, galleryItems.length, remainingItemCount, loadMoreItems]);
+
+  // Keep loading pages until a pending linked photo turns up, then move onto it
+  useEffect(() => {
+    if (!pendingPhoto) return;
+    if (selectedExhibit?.identifier !== pendingPhoto.exhibitId) {
+      setPendingPhoto(null);
+      return;
+    }
+    if (loadingMore) return;
+
+    const found = findLinkedSlide(pendingPhoto, getSlides(selectedExhibit)) !== -1;
+    if (!found && !isFullyLoaded(selectedExhibit)) {
+      loadMoreItems().then(loaded => {
+        if (!loaded) setPendingPhoto(null);
+      });
+      return;
+    }
+
+    setPendingPhoto(null);
+    const shown = resolveSlide(pendingPhoto, selectedExhibit);
+    setCurrentIndex(shown.slide ?? 0);
+    setLightboxOpen(!!shown.zoom && !shown.grid);
+    jumpToSlide(shown.slide ?? 0);
+    navigate(shown, { replace: true });
+  }, [pendingPhoto, selectedExhibit, loadingMore, loadMoreItems]);
+
+  // ---------------------------------------------------------------------------
+  // SLIDESHOW
+  // ---------------------------------------------------------------------------
+
+  const slideshowRunning = playing && !interactionPaused && !tabHidden && !!selectedExhibit
+    && !showIntro && !gridView && !lightboxOpen;
+
+  // Next slide; at the end either loop or hand over to the next exhibit of the same list
+  advanceSlideshowRef.current = () => {
+    if (!selectedExhibit) return;
+    if (currentIndex < galleryItems.length - 1) {
+      scrollToIndex(currentIndex + 1);
+      return;
+    }
+    if (remainingItemCount > 0) {
+      loadMoreItems();
+      setSlideshowCycle(cycle => cycle + 1);
+      return;
+    }
+
+    if (slideshowSettings.continueToNext) {
+      const list = [exhibits, creativeCalls, favoriteExhibits].find(l => l.some(e => e.identifier === selectedExhibit.identifier)) || [];
+      const start = list.findIndex(e => e.identifier === selectedExhibit.identifier);
+      for (let step = 1; step < list.length; step++) {
+        const next = list[(start + step) % list.length];
+        if (getSlides(next).length > 0) {
+          // Replace rather than push so an unattended display doesn't pile up history
+          handleExhibitClick(next, 0, { replace: true });
+          return;
+        }
+      }
+    }
+    scrollToIndex(0);
+  };
+
+  useEffect(() => {
+    if (!slideshowRunning) return;
+    const timer = setTimeout(() => advanceSlideshowRef.current(), slideshowSettings.intervalMs);
+    return () => clearTimeout(timer);
+  }, [slideshowRunning, currentIndex, selectedExhibit?.identifier, slideshowSettings.intervalMs, slideshowCycle]);
+
+  // Any pointer, wheel or key input pauses playback until things go quiet again
+  useEffect(() => {
+    if (!playing) return;
+    let resumeTimer: ReturnType<typeof setTimeout>;
+    const handleInteraction = () => {
+      setInteractionPaused(true);
+      clearTimeout(resumeTimer);
+      resumeTimer = setTimeout(() => setInteractionPaused(false), SLIDESHOW_RESUME_MS);
+    };
+    const events = ['pointerdown', 'wheel', 'keydown'] as const;
+    events.forEach(type => window.addEventListener(type, handleInteraction, { capture: true, passive: true }));
+    return () => {
+      clearTimeout(resumeTimer);
+      events.forEach(type => window.removeEventListener(type, handleInteraction, { capture: true }));
+    };
+  }, [playing]);
+
+  useEffect(() => {
+    const handleVisibility = () => setTabHidden(document.visibilityState === 'hidden');
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // Leaving the detail view stops the slideshow
+  useEffect(() => {
+    if (!selectedExhibit) setPlaying(false);
+  }, [selectedExhibit]);
+
+  useEffect(() => {
+    saveSlideshowSettings(slideshowSettings);
+  }, [slideshowSettings]);
+
+  const handleBackgroundSwatchChange = (key: PaletteSwatchKey) => {
+    setBackgroundSwatch(key);
+    saveBackgroundSwatch(key);
+  };
+
+  const handleCopyColor = async (hex: string) => {
+    showToast((await copyToClipboard(hex)) ? t('toast.colorCopied', { hex }) : t('toast.colorCopyFailed'));
+  };
+
+  const toggleSlideshow = () => {
+    setInteractionPaused(false);
+    setPlaying(prev => !prev);
+  };
 
   // Keyboard Navigation
   useEffect(() => {
     // Only active if we are in detail view
-    if (!selectedExhibit) return;
+    if (!selectedExhibit || lightboxOpen || gridView) return; // The Lightbox handles its own keys
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
       if (e.key === 'ArrowLeft') {
         prevSlide();
       } else if (e.key === 'ArrowRight') {
@@ -376,23 +963,29 @@ const App: React.FC = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedExhibit, currentIndex]);
+  }, [selectedExhibit, currentIndex, lightboxOpen, gridView]);
 
   // Dynamic Document Title
   useEffect(() => {
-    const baseTitle = "Polaroid App Selections";
+    const baseTitle = t('app.title');
     if (selectedExhibit) {
-      const currentItem = galleryItems[currentIndex];
+      const currentItem = showIntro ? undefined : galleryItems[currentIndex];
       const itemTitle = currentItem?.title;
       if (itemTitle) {
-        document.title = `${itemTitle} - ${selectedExhibit.title} | ${baseTitle}`;
+        document.title = t('app.documentTitle.photo', { photo: itemTitle, exhibit: selectedExhibit.title, app: baseTitle });
       } else {
-        document.title = `${selectedExhibit.title} | ${baseTitle}`;
+        document.title = t('app.documentTitle.exhibit', { exhibit: selectedExhibit.title, app: baseTitle });
       }
     } else {
       document.title = baseTitle;
     }
-  }, [selectedExhibit, currentIndex, galleryItems]);
+  }, [selectedExhibit, showIntro, currentIndex, galleryItems, locale]);
+
+  // Language: follow switches and keep <html lang> in step for screen readers and fonts
+  useEffect(() => subscribeToLocale(setLocaleState), []);
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
 
   // ---------------------------------------------------------------------------
   // DYNAMIC COLOR LOGIC
@@ -402,15 +995,10 @@ const App: React.FC = () => {
   let appTextColor = '#f4f4f5'; // Default Home Text
 
   if (selectedExhibit) {
-    // Discrete text color based on current slide (kept discrete for readability)
-    const currentItem = galleryItems[currentIndex];
-    const currentPalette = currentItem?.image?.asset?.metadata?.palette;
-    const coverAsset = selectedExhibit?.coverImages?.[0]?.asset;
-    const fallbackPalette = coverAsset?.metadata?.palette;
-    const displayPalette = currentPalette || fallbackPalette;
-
-    // Note: Background color is handled by handleScroll when in detail view
-    appTextColor = displayPalette?.dominant?.foreground || '#ffffff';
+    // Text color for the current slide, contrast-checked against its background.
+    // Note: Background color (and text color mid-scroll) is handled by handleScroll when in detail view
+    const slideBackground = galleryColors[currentIndex] || galleryColors[0] || '#2c2435';
+    appTextColor = getReadableTextColor(slideBackground, galleryForegrounds[currentIndex] || '#ffffff');
   }
 
   // Handle Home <-> Detail Transitions and Initial States
@@ -420,6 +1008,7 @@ const App: React.FC = () => {
       if (mainRef.current) {
         mainRef.current.style.transition = '';
         mainRef.current.style.backgroundColor = '';
+        mainRef.current.style.color = appTextColor; // Drop the text color handleScroll set last
       }
       document.body.style.transition = '';
       document.body.style.backgroundColor = appBgColor;
@@ -447,7 +1036,7 @@ const App: React.FC = () => {
         }, 750);
       }
     }
-  }, [selectedExhibit, appBgColor]);
+  }, [selectedExhibit?.identifier, appBgColor, backgroundSwatch]);
   // Dependency on appBgColor ensures home page updates if we ever change default home color logic
 
   const faviconHref = React.useMemo(() => {
@@ -528,23 +1117,24 @@ const App: React.FC = () => {
       }}
     >
 
+      <Toast message={toast.message} visible={toast.visible} />
+      <OfflineIndicator />
+
+      {selectedExhibit && lightboxOpen && !showIntro && !gridView && galleryItems[currentIndex] && (
+        <Lightbox
+          items={galleryItems}
+          index={currentIndex}
+          onIndexChange={handleLightboxIndexChange}
+          onClose={closeLightbox}
+        />
+      )}
+
       {/* Main Content Area */}
       <main className="flex-grow flex flex-col relative">
         {loading ? (
           <div className="flex flex-col items-center justify-center h-[60vh] text-zinc-500 gap-4">
             <Loader2 className="w-8 h-8 text-white animate-spin" />
           </div>
-        ) : error ? (
-           <div className="flex flex-col items-center justify-center h-[50vh] text-center px-6">
-            <AlertTriangle className="w-8 h-8 text-polaroid-red mb-4" />
-            <p className="text-zinc-400 mb-6">{error}</p>
-            <button
-              onClick={() => window.location.reload()}
-              className="px-6 py-2 bg-zinc-800 text-white rounded-full text-sm font-medium"
-            >
-              Retry
-            </button>
-          </div>
         ) : (
           <>
             {selectedExhibit ? (
@@ -554,66 +1144,196 @@ const App: React.FC = () => {
                 onClick={handleBack}
               >
 
-                {/* Horizontal Scroll Container */}
-                <div
-                  ref={scrollContainerRef}
-                  onScroll={handleScroll}
-                  className="flex-1 w-full overflow-x-auto snap-x snap-mandatory flex scrollbar-hide items-center"
-                  style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
-                >
-                    {galleryItems.map((item, idx) => (
-                        <div key={idx} className="min-w-full w-full h-full snap-center flex flex-col items-center justify-center p-4 md:p-8 relative">
-                           <GallerySlide item={item} />
+                {showIntro ? (
+                  <CreativeCallIntro
+                    exhibit={selectedExhibit}
+                    submissionCount={totalSlideCount}
+                    onStart={handleStartSubmissions}
+                  />
+                ) : gridView ? (
+                  <ExhibitGrid
+                    items={galleryItems}
+                    currentIndex={currentIndex}
+                    remainingCount={remainingItemCount}
+                    loadingMore={loadingMore}
+                    onSelect={handleGridSelect}
+                    onLoadMore={loadMoreItems}
+                    onClose={closeGrid}
+                  />
+                ) : (
+                  <>
+                    {/* Horizontal Scroll Container */}
+                    <div
+                      ref={scrollContainerRef}
+                      onScroll={handleScroll}
+                      className="flex-1 w-full overflow-x-auto snap-x snap-mandatory flex scrollbar-hide items-center"
+                      style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
+                    >
+                        {galleryItems.map((item, idx) => (
+                            <div key={idx} className="min-w-full w-full h-full snap-center flex flex-col items-center justify-center p-4 md:p-8 relative">
+                               {Math.abs(idx - currentIndex) <= SLIDE_WINDOW && (
+                                 <GallerySlide item={item} onOpen={() => openLightbox(idx)} />
+                               )}
+                            </div>
+                        ))}
+                        {remainingItemCount > 0 && (
+                            <div className="min-w-full w-full h-full snap-center flex items-center justify-center">
+                               {loadMoreError && !loadingMore ? (
+                                 <LoadErrorNotice error={loadMoreError} onRetry={loadMoreItems} />
+                               ) : (
+                                 <Loader2 className={`w-8 h-8 opacity-70 ${loadingMore ? '' : 'hidden'}`} />
+                               )}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Navigation Controls Row */}
+                    <div className="absolute inset-x-0 bottom-8 flex justify-center items-center gap-6 z-10 pointer-events-none">
+                      {/* Left Button */}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          prevSlide();
+                        }}
+                        disabled={currentIndex === 0}
+                        aria-label={t('detail.previous')}
+                        className="pointer-events-auto p-2 rounded-full hover:bg-black/10 backdrop-blur-sm disabled:opacity-0 disabled:pointer-events-none transition-all"
+                        style={{ color: 'inherit' }}
+                      >
+                        <ChevronLeft className="w-6 h-6" />
+                      </button>
+
+                      {/* Dots, or a scrubber once there are too many to show */}
+                      {totalSlideCount > MAX_DOTS ? (
+                        <SlideScrubber
+                          index={currentIndex}
+                          total={totalSlideCount}
+                          loaded={galleryItems.length}
+                          onChange={jumpToSlide}
+                        />
+                      ) : (
+                        <div className="flex gap-2 pointer-events-auto">
+                          {Array.from({ length: totalSlideCount }, (_, idx) => (
+                            <button
+                              key={idx}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                scrollToIndex(idx);
+                              }}
+                              // Dots past the loaded items stand for submissions that are not fetched yet
+                              disabled={idx >= galleryItems.length}
+                              className={`w-2 h-2 rounded-full transition-all duration-300 disabled:opacity-20 disabled:pointer-events-none ${
+                                idx === currentIndex ? 'scale-125' : 'opacity-40 hover:opacity-60'
+                              }`}
+                              style={{ backgroundColor: 'currentColor' }}
+                              aria-label={t('detail.goToSlide', { number: idx + 1 })}
+                            />
+                          ))}
                         </div>
-                    ))}
-                </div>
+                      )}
 
-                {/* Navigation Controls Row */}
-                <div className="absolute inset-x-0 bottom-8 flex justify-center items-center gap-6 z-10 pointer-events-none">
-                  {/* Left Button */}
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      prevSlide();
-                    }}
-                    disabled={currentIndex === 0}
-                    className="pointer-events-auto p-2 rounded-full hover:bg-black/10 backdrop-blur-sm disabled:opacity-0 disabled:pointer-events-none transition-all"
-                    style={{ color: 'inherit' }}
-                  >
-                    <ChevronLeft className="w-6 h-6" />
-                  </button>
-
-                  {/* Dots */}
-                  <div className="flex gap-2 pointer-events-auto">
-                    {galleryItems.map((_, idx) => (
+                      {/* Right Button */}
                       <button
-                        key={idx}
                         onClick={(e) => {
                           e.stopPropagation();
-                          scrollToIndex(idx);
+                          nextSlide();
                         }}
-                        className={`w-2 h-2 rounded-full transition-all duration-300 ${
-                          idx === currentIndex ? 'scale-125' : 'opacity-40 hover:opacity-60'
-                        }`}
-                        style={{ backgroundColor: 'currentColor' }}
-                        aria-label={`Go to slide ${idx + 1}`}
+                        disabled={currentIndex === galleryItems.length - 1}
+                        aria-label={t('detail.next')}
+                        className="pointer-events-auto p-2 rounded-full hover:bg-black/10 backdrop-blur-sm disabled:opacity-0 disabled:pointer-events-none transition-all"
+                        style={{ color: 'inherit' }}
+                      >
+                        <ChevronLeft className="w-6 h-6 rotate-180" />
+                      </button>
+
+                      {/* Slideshow */}
+                      <SlideshowControls
+                        playing={playing}
+                        running={slideshowRunning}
+                        progressKey={`${selectedExhibit.identifier}:${currentIndex}:${slideshowCycle}`}
+                        settings={slideshowSettings}
+                        onToggle={toggleSlideshow}
+                        onSettingsChange={setSlideshowSettings}
                       />
-                    ))}
-                  </div>
 
-                  {/* Right Button */}
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      nextSlide();
-                    }}
-                    disabled={currentIndex === galleryItems.length - 1}
-                    className="pointer-events-auto p-2 rounded-full hover:bg-black/10 backdrop-blur-sm disabled:opacity-0 disabled:pointer-events-none transition-all"
-                    style={{ color: 'inherit' }}
-                  >
-                    <ChevronLeft className="w-6 h-6 rotate-180" />
-                  </button>
-                </div>
+                      {/* Grid overview */}
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openGrid();
+                        }}
+                        aria-label={t('detail.showAll')}
+                        className="pointer-events-auto p-2 rounded-full hover:bg-black/10 backdrop-blur-sm transition-all"
+                        style={{ color: 'inherit' }}
+                      >
+                        <LayoutGrid className="w-5 h-5" />
+                      </button>
+
+                      {/* Palette */}
+                      <PaletteInspector
+                        palette={galleryItems[currentIndex]?.image?.asset?.metadata?.palette}
+                        backgroundSwatch={backgroundSwatch}
+                        onBackgroundSwatchChange={handleBackgroundSwatchChange}
+                        onCopy={handleCopyColor}
+                      />
+
+                      {/* Save for offline */}
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleToggleOffline();
+                        }}
+                        disabled={savingOffline}
+                        aria-pressed={offlineExhibitIds.includes(selectedExhibit.identifier)}
+                        aria-label={offlineExhibitIds.includes(selectedExhibit.identifier) ? t('detail.removeOffline') : t('detail.saveOffline')}
+                        className="pointer-events-auto p-2 rounded-full hover:bg-black/10 backdrop-blur-sm disabled:opacity-50 transition-all"
+                        style={{ color: 'inherit' }}
+                      >
+                        {savingOffline ? (
+                          <Loader2 className="w-5 h-5 animate-spin" />
+                        ) : offlineExhibitIds.includes(selectedExhibit.identifier) ? (
+                          <CheckCircle className="w-5 h-5" />
+                        ) : (
+                          <Download className="w-5 h-5" />
+                        )}
+                      </button>
+
+                      {/* Share */}
+                      <button
+                        type="button"
+                        onPointerEnter={prefetchCurrentShareImage}
+                        onPointerDown={prefetchCurrentShareImage}
+                        onFocus={prefetchCurrentShareImage}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleShare();
+                        }}
+                        aria-label={t('detail.share')}
+                        className="pointer-events-auto p-2 rounded-full hover:bg-black/10 backdrop-blur-sm transition-all"
+                        style={{ color: 'inherit' }}
+                      >
+                        <Share className="w-5 h-5" />
+                      </button>
+
+                      {/* Favorite */}
+                      <FavoriteControls
+                        assetId={currentAssetId}
+                        favorited={isFavorite(favorites, currentAssetId)}
+                        collections={favorites.collections}
+                        onToggleFavorite={() => {
+                          const item = galleryItems[currentIndex];
+                          if (item && selectedExhibit) setFavorites(prev => toggleFavorite(prev, item, selectedExhibit));
+                        }}
+                        onToggleCollection={(collectionId) => {
+                          if (currentAssetId) setFavorites(prev => toggleInCollection(prev, collectionId, currentAssetId));
+                        }}
+                        onCreateCollection={(name) => setFavorites(prev => createCollection(prev, name))}
+                      />
+                    </div>
+                  </>
+                )}
 
               </div>
             ) : (
@@ -634,7 +1354,7 @@ const App: React.FC = () => {
                           />
                         ) : null}
                         <h1 className="text-4xl font-bold tracking-tight text-white leading-tight">
-                          Polaroid App Selections
+                          {t('app.title')}
                         </h1>
                       </div>
 
@@ -660,21 +1380,31 @@ const App: React.FC = () => {
                         >
                           <button
                             type="button"
-                            onClick={() => setHomeTab('weekly')}
+                            onClick={() => handleTabChange('weekly')}
                             className={`px-3 py-1.5 rounded-full text-sm sm:px-4 sm:py-2 sm:text-lg md:text-2xl font-semibold transition-colors ${
                               homeTab === 'weekly' ? 'bg-white/10 text-white' : 'text-zinc-400 hover:text-zinc-200 cursor-pointer'
                             } whitespace-nowrap text-center shrink-0`}
                           >
-                            Weekly 8
+                            {t('tabs.weekly')}
                           </button>
                           <button
                             type="button"
-                            onClick={() => setHomeTab('creative')}
+                            onClick={() => handleTabChange('creative')}
                             className={`px-3 py-1.5 rounded-full text-sm sm:px-4 sm:py-2 sm:text-lg md:text-2xl font-semibold transition-colors ${
                               homeTab === 'creative' ? 'bg-white/10 text-white' : 'text-zinc-400 hover:text-zinc-200 cursor-pointer'
                             } whitespace-nowrap text-center shrink-0`}
                           >
-                            Creative Call
+                            {t('tabs.creative')}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleTabChange('favorites')}
+                            aria-label={t('tabs.favorites')}
+                            className={`px-3 py-1.5 rounded-full text-sm sm:px-4 sm:py-2 sm:text-lg md:text-2xl font-semibold transition-colors ${
+                              homeTab === 'favorites' ? 'bg-white/10 text-white' : 'text-zinc-400 hover:text-zinc-200 cursor-pointer'
+                            } whitespace-nowrap text-center shrink-0`}
+                          >
+                            <Heart className="w-5 h-5 sm:w-6 sm:h-6 md:w-7 md:h-7" />
                           </button>
                         </div>
                       </div>
@@ -682,42 +1412,177 @@ const App: React.FC = () => {
 
                     {homeTab === 'weekly' ? (
                       <p className="text-zinc-400 text-base md:text-lg font-medium max-w-2xl mt-4 mx-0 sm:ml-auto sm:mr-0 text-left sm:text-right text-balance">
-                        Explore fresh galleries curated by the Polaroid team.
+                        {t('tabs.weekly.description')}
+                      </p>
+                    ) : homeTab === 'creative' ? (
+                      <p className="text-zinc-400 text-base md:text-lg font-medium max-w-2xl mt-4 mx-0 sm:ml-auto sm:mr-0 text-left sm:text-right text-balance">
+                        {t('tabs.creative.description')}
                       </p>
                     ) : (
                       <p className="text-zinc-400 text-base md:text-lg font-medium max-w-2xl mt-4 mx-0 sm:ml-auto sm:mr-0 text-left sm:text-right text-balance">
-                        Browse recent Creative Call submissions.
+                        {t('tabs.favorites.description')}
                       </p>
                     )}
                   </div>
 
+                  <div className="mt-6 px-3 flex items-center gap-3">
+                    <input
+                      type="search"
+                      value={searchQuery}
+                      onChange={(e) => handleSearchChange(e.target.value)}
+                      placeholder={t('search.placeholder')}
+                      aria-label={t('search.placeholder')}
+                      className="min-w-0 flex-1 rounded-full bg-white/5 px-5 py-2.5 text-base text-zinc-100 placeholder:text-zinc-500 outline-none focus:bg-white/10 focus:ring-1 focus:ring-white/20 transition-colors"
+                    />
+                    {/* Color search: the native picker, shown as a round swatch */}
+                    <label
+                      className="relative w-10 h-10 shrink-0 rounded-full cursor-pointer ring-1 ring-white/20 hover:ring-white/50 transition-shadow overflow-hidden"
+                      style={{
+                        background: colorQuery
+                          || 'conic-gradient(#f5262e, #f78a22, #fde024, #279d52, #0073c2, #f5262e)',
+                      }}
+                      title={t('colorSearch.label')}
+                    >
+                      <input
+                        type="color"
+                        value={colorQuery || '#808080'}
+                        onChange={(e) => handleColorChange(e.target.value)}
+                        aria-label={t('colorSearch.label')}
+                        className="absolute inset-0 opacity-0 cursor-pointer"
+                      />
+                    </label>
+                    {colorQuery && (
+                      <button
+                        type="button"
+                        onClick={() => handleColorChange(null)}
+                        aria-label={t('colorSearch.clear')}
+                        className="p-2 -ml-2 rounded-full text-zinc-400 hover:text-zinc-200 hover:bg-white/5 transition-colors"
+                      >
+                        <XIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+
                   <div className="mt-8 md:mt-10">
-                    {homeTab === 'weekly' ? (
-                      <div className="flex flex-col gap-6">
-                        {exhibits.map((exhibit) => (
-                          <ExhibitCard
-                            key={exhibit.identifier}
-                            exhibit={exhibit}
-                            onClick={handleExhibitClick}
-                            fallbackSubtitle="Weekly 8 Gallery"
-                          />
-                        ))}
-                      </div>
-                    ) : creativeCallsError ? (
-                      <p className="text-zinc-500 text-sm md:text-base">{creativeCallsError}</p>
+                    {searchQuery.trim() ? (
+                      <SearchResults query={searchQuery.trim()} hits={searchHits} onSelect={handleExhibitClick} />
+                    ) : colorExhibit ? (
+                      colorExhibit.gallery?.galleryItems?.length ? (
+                        <ExhibitCard
+                          exhibit={colorExhibit}
+                          onClick={handleExhibitClick}
+                          fallbackSubtitle={t('colorSearch.fallback')}
+                        />
+                      ) : (
+                        <p className="px-3 text-zinc-500 text-sm md:text-base">
+                          {t('colorSearch.noResults', { color: colorQuery ?? '' })}
+                        </p>
+                      )
+                    ) : homeTab === 'favorites' ? (
+                      favoriteExhibits.length === 0 ? (
+                        <p className="px-3 text-zinc-500 text-sm md:text-base">
+                          {t('favorites.empty')}
+                        </p>
+                      ) : (
+                        <div className="flex flex-col gap-6">
+                          {favoriteExhibits.map((exhibit) => {
+                            const collectionId = getCollectionId(exhibit.identifier);
+                            return (
+                              <div key={exhibit.identifier} className="flex flex-col gap-2">
+                                <ExhibitCard
+                                  exhibit={exhibit}
+                                  onClick={(target, index) => {
+                                    if (target.gallery?.galleryItems?.length) handleExhibitClick(target, index);
+                                  }}
+                                  fallbackSubtitle={t('tabs.favorites')}
+                                />
+                                {collectionId && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setFavorites(prev => deleteCollection(prev, collectionId))}
+                                    className="self-end px-3 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+                                  >
+                                    {t('favorites.deleteCollection')}
+                                  </button>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )
+                    ) : homeTab === 'weekly' ? (
+                      weeklyError ? (
+                        <LoadErrorNotice
+                          error={weeklyError}
+                          onRetry={() => retryFeed('weekly')}
+                          retrying={retryingFeed === 'weekly'}
+                        />
+                      ) : (
+                        <div className="flex flex-col gap-6">
+                          {exhibits.map((exhibit) => (
+                            <ExhibitCard
+                              key={exhibit.identifier}
+                              exhibit={exhibit}
+                              onClick={handleExhibitClick}
+                              fallbackSubtitle={t('exhibit.weeklyFallback')}
+                            />
+                          ))}
+                        </div>
+                      )
                     ) : (
-                      <div className="flex flex-col gap-6">
-                        {creativeCalls.map((call) => (
-                          <ExhibitCard
-                            key={call.identifier}
-                            exhibit={call}
-                            onClick={handleExhibitClick}
-                            fallbackSubtitle="Creative Call"
+                      <div className="flex flex-col gap-10">
+                        {upcomingCalls.length > 0 && (
+                          <section className="flex flex-col gap-4">
+                            <h2 className="px-3 text-sm font-semibold uppercase tracking-wider text-zinc-400">
+                              {t('creativeCall.comingSoon')}
+                            </h2>
+                            <div className="flex flex-col gap-6">
+                              {upcomingCalls.map((call) => (
+                                <UpcomingCallCard key={call.identifier} call={call} onOpen={handleUpcomingOpen} />
+                              ))}
+                            </div>
+                          </section>
+                        )}
+                        {creativeCallsError ? (
+                          <LoadErrorNotice
+                            error={creativeCallsError}
+                            onRetry={() => retryFeed('creative')}
+                            retrying={retryingFeed === 'creative'}
                           />
-                        ))}
+                        ) : (
+                          <div className="flex flex-col gap-6">
+                            {creativeCalls.map((call) => (
+                              <ExhibitCard
+                                key={call.identifier}
+                                exhibit={call}
+                                onClick={handleExhibitClick}
+                                fallbackSubtitle={t('tabs.creative')}
+                              />
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
+
+                  <div className="mt-10 px-3 flex flex-wrap items-center justify-end gap-x-3 gap-y-1 text-xs text-zinc-600">
+                    <LanguageSwitcher locale={locale} />
+                    {lastUpdatedAt !== null && <span>{t('footer.updated', { time: formatUpdatedAt(lastUpdatedAt) })}</span>}
+                    {dataSource.kind === 'fixtures' ? (
+                      <span>{t('footer.fixtures')}</span>
+                    ) : dataRoute ? (
+                      <span>{t('footer.servedVia', { route: dataRoute.label, ms: dataRoute.elapsedMs })}</span>
+                    ) : null}
+                    <button
+                      type="button"
+                      onClick={() => loadData(true)}
+                      disabled={refreshing}
+                      className="inline-flex items-center gap-1 rounded-full px-2 py-1 text-zinc-400 hover:text-zinc-200 hover:bg-white/5 disabled:opacity-50 disabled:pointer-events-none transition-colors"
+                    >
+                      <RefreshCw className={`w-3.5 h-3.5 ${refreshing ? 'animate-spin' : ''}`} />
+                      {refreshing ? t('footer.refreshing') : t('footer.refresh')}
+                    </button>
+                  </div>
                 </div>
               </div>
             )}
@@ -0,0 +1,39 @@
+import React, { useEffect, useRef } from 'react';
+import { decodeBlurHash } from '../utils/blurhash';
+
+interface BlurHashCanvasProps {
+  hash: string;
+  /** width / height of the image the placeholder stands in for. */
+  aspectRatio?: number;
+  className?: string;
+}
+
+// Decoding resolution; CSS scales the canvas up and the browser smooths it
+const RESOLUTION = 32;
+
+/**
+ * Paints a BlurHash placeholder straight from API metadata, so something
+ * meaningful is on screen before any image request completes.
+ */
+const BlurHashCanvas: React.FC<BlurHashCanvasProps> = ({ hash, aspectRatio = 1, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const width = aspectRatio >= 1 ? RESOLUTION : Math.max(1, Math.round(RESOLUTION * aspectRatio));
+  const height = aspectRatio >= 1 ? Math.max(1, Math.round(RESOLUTION / aspectRatio)) : RESOLUTION;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    try {
+      const pixels = decodeBlurHash(hash, width, height);
+      const imageData = context.createImageData(width, height);
+      imageData.data.set(pixels);
+      context.putImageData(imageData, 0, 0);
+    } catch (error) {
+      console.warn('Unable to decode BlurHash', error);
+    }
+  }, [hash, width, height]);
+
+  return <canvas ref={canvasRef} width={width} height={height} aria-hidden className={className} />;
+};
+
+export default BlurHashCanvas;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ExhibitItem } from '../types';
+import { getOptimizedImageUrl } from '../services/api';
+import { t } from '../i18n';
+import { formatDateRange, getCreativeCallStatus, getCreativeCallStatusLabel } from '../utils/date';
+import { ChevronLeft } from './Icons';
+
+interface CreativeCallIntroProps {
+  exhibit: ExhibitItem;
+  submissionCount: number;
+  onStart: () => void;
+}
+
+// Intro screen shown before a Creative Call's submissions carousel
+const CreativeCallIntro: React.FC<CreativeCallIntroProps> = ({ exhibit, submissionCount, onStart }) => {
+  const call = exhibit.creativeCall;
+  const sections = call?.overview || [];
+  const status = call ? getCreativeCallStatus(call) : null;
+  const dates = call ? formatDateRange(call.beginAt, call.endAt) : '';
+
+  return (
+    <div className="flex-1 w-full overflow-y-auto">
+      <div
+        className="max-w-3xl mx-auto px-6 pt-16 pb-32 md:pt-24 flex flex-col gap-10 cursor-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <header className="flex flex-col gap-2">
+          <span className="text-xs font-medium uppercase tracking-wider opacity-70">
+            {exhibit.subtitle || t('tabs.creative')}
+          </span>
+          <h2 className="text-3xl md:text-5xl font-bold leading-tight">{exhibit.title}</h2>
+          {(status || dates) && (
+            <div className="flex flex-wrap items-center gap-3 text-sm opacity-80">
+              {status && <span className="rounded-full px-2 py-0.5 ring-1 ring-current">{getCreativeCallStatusLabel(status)}</span>}
+              {dates && <span>{dates}</span>}
+            </div>
+          )}
+        </header>
+
+        {/* Overview Sections */}
+        {sections.map((section, i) => (
+          <section key={i} className="flex flex-col gap-3">
+            {section.title && <h3 className="text-xl md:text-2xl font-semibold">{section.title}</h3>}
+            {section.subtitle && <p className="text-sm uppercase tracking-wide opacity-70">{section.subtitle}</p>}
+            {section.paragraph && (
+              <p className="text-base md:text-lg leading-relaxed opacity-90 whitespace-pre-line">{section.paragraph}</p>
+            )}
+            {section.images && section.images.length > 0 && (
+              <div className={`grid gap-3 ${section.images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {section.images.map((image, j) => image.asset?.url ? (
+                  <img
+                    key={image.asset.assetId || j}
+                    src={getOptimizedImageUrl(image.asset.url, 800)}
+                    alt=""
+                    loading="lazy"
+                    decoding="async"
+                    className="w-full h-auto rounded-lg"
+                  />
+                ) : null)}
+              </div>
+            )}
+          </section>
+        ))}
+
+        {submissionCount > 0 && (
+          <button
+            type="button"
+            onClick={onStart}
+            className="self-start inline-flex items-center gap-2 rounded-full px-5 py-2.5 font-semibold ring-1 ring-current hover:bg-black/10 transition-colors"
+          >
+            {t('creativeCall.viewSubmissions', { count: submissionCount })}
+            <ChevronLeft className="w-5 h-5 rotate-180" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CreativeCallIntro;
@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
-import { ExhibitItem } from '../types';
-import { getOptimizedImageUrl } from '../services/api';
+import { ExhibitItem, SanityAsset } from '../types';
+import { isValidBlurHash } from '../utils/blurhash';
+import BlurHashCanvas from './BlurHashCanvas';
+import ResponsiveImage from './ResponsiveImage';
+import { formatDateRange, getCreativeCallStatus, getCreativeCallStatusLabel } from '../utils/date';
+import { getReadableTextColor } from '../utils/color';
+import { t } from '../i18n';
 
 interface ExhibitCardProps {
   exhibit: ExhibitItem;
@@ -8,14 +13,28 @@ interface ExhibitCardProps {
   fallbackSubtitle?: string;
 }
 
-const CardImage = ({ src }: { src: string }) => {
+// Rendered widths of the thumbnails below (w-28 / md:w-36 / lg:w-44)
+const CARD_IMAGE_SIZES = '(min-width: 1024px) 11rem, (min-width: 768px) 9rem, 7rem';
+
+const CardImage = ({ asset }: { asset: SanityAsset }) => {
   const [loaded, setLoaded] = useState(false);
+  const blurHash = asset.metadata?.blurHash;
 
   return (
     <div className="relative aspect-[41/50] w-full bg-white cursor-zoom-in">
-      <div className={`absolute top-[6%] left-[6%] right-[5%] bottom-[20%] bg-[#567d90] transition-opacity duration-1500 ${loaded ? 'opacity-0' : ''}`} />
-      <img
-        src={src}
+      {isValidBlurHash(blurHash) ? (
+        <BlurHashCanvas
+          hash={blurHash}
+          aspectRatio={41 / 50}
+          className={`absolute inset-0 w-full h-full transition-opacity duration-1500 ${loaded ? 'opacity-0' : ''}`}
+        />
+      ) : (
+        <div className={`absolute top-[6%] left-[6%] right-[5%] bottom-[20%] bg-[#567d90] transition-opacity duration-1500 ${loaded ? 'opacity-0' : ''}`} />
+      )}
+      <ResponsiveImage
+        asset={asset}
+        sizes={CARD_IMAGE_SIZES}
+        maxWidth={800}
         alt=""
         decoding="async"
         loading="lazy"
@@ -26,7 +45,7 @@ const CardImage = ({ src }: { src: string }) => {
   );
 };
 
-const ExhibitCard: React.FC<ExhibitCardProps> = ({ exhibit, onClick, fallbackSubtitle = 'Weekly 8 Gallery' }) => {
+const ExhibitCard: React.FC<ExhibitCardProps> = ({ exhibit, onClick, fallbackSubtitle = t('exhibit.weeklyFallback') }) => {
   // Collect up to 8 images to display in the card preview
   const allImages = [];
 
@@ -64,11 +83,17 @@ const ExhibitCard: React.FC<ExhibitCardProps> = ({ exhibit, onClick, fallbackSub
 
   // Use 'dominant' color as requested
   const bgColor = palette?.dominant?.background || '#151520';
-  const txtColor = palette?.dominant?.foreground || '#ffffff';
+  const txtColor = getReadableTextColor(bgColor, palette?.dominant?.foreground);
+
+  // Creative Call status badge and date range
+  const call = exhibit.creativeCall;
+  const callStatus = call ? getCreativeCallStatus(call) : null;
+  const callDates = call ? formatDateRange(call.beginAt, call.endAt) : '';
 
   const handleCardClick = (e: React.MouseEvent) => {
     e.preventDefault();
-    onClick(exhibit, 0);
+    // No index: lets the detail view open on the Creative Call intro when there is one
+    onClick(exhibit);
   };
 
   return (
@@ -94,6 +119,19 @@ const ExhibitCard: React.FC<ExhibitCardProps> = ({ exhibit, onClick, fallbackSub
         >
           {exhibit.title}
         </h3>
+        {callStatus && (
+          <div className="flex flex-wrap items-center gap-2 mt-1 text-xs font-medium">
+            <span
+              className={`inline-flex items-center gap-1.5 rounded-full px-2 py-0.5 ring-1 ring-current ${
+                callStatus === 'ongoing' ? '' : 'opacity-60'
+              }`}
+            >
+              {callStatus === 'ongoing' && <span className="w-1.5 h-1.5 rounded-full bg-current animate-pulse" />}
+              {getCreativeCallStatusLabel(callStatus)}
+            </span>
+            {callDates && <span className="opacity-70">{callDates}</span>}
+          </div>
+        )}
       </div>
 
       {/* Scrollable Row of Photos (limit visible width so thumbnails stay larger) */}
@@ -104,7 +142,6 @@ const ExhibitCard: React.FC<ExhibitCardProps> = ({ exhibit, onClick, fallbackSub
         >
           {displayImages.map((img, i) => {
           const asset = img.asset;
-          const url = asset ? getOptimizedImageUrl(asset.url, 400) : null;
 
           // Find the index of this image in the main gallery items list for deep linking
           const galleryIndex = exhibit.gallery?.galleryItems?.findIndex(
@@ -114,7 +151,7 @@ const ExhibitCard: React.FC<ExhibitCardProps> = ({ exhibit, onClick, fallbackSub
           // If found in gallery, use that index. Otherwise default to 0.
           const targetIndex = (galleryIndex !== undefined && galleryIndex > -1) ? galleryIndex : 0;
 
-          if (!url) {
+          if (!asset?.url) {
             return <div key={i} className="flex-shrink-0 w-28 md:w-36 lg:w-44 aspect-[41/50] bg-white/5" />;
           }
 
@@ -127,7 +164,7 @@ const ExhibitCard: React.FC<ExhibitCardProps> = ({ exhibit, onClick, fallbackSub
               }}
               className="flex-shrink-0 w-28 md:w-36 lg:w-44 hover:opacity-80 transition-opacity cursor-zoom-in"
             >
-              <CardImage src={url} />
+              <CardImage asset={asset} />
             </div>
           );
           })}
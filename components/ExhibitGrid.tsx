@@ -0,0 +1,120 @@
+import React, { useEffect, useRef } from 'react';
+import { GalleryItem } from '../types';
+import { t } from '../i18n';
+import ResponsiveImage from './ResponsiveImage';
+import { Loader2, XIcon } from './Icons';
+
+interface ExhibitGridProps {
+  items: GalleryItem[];
+  currentIndex: number;
+  /** Submissions upstream that are not fetched yet. */
+  remainingCount: number;
+  loadingMore: boolean;
+  onSelect: (index: number) => void;
+  onLoadMore: () => void;
+  onClose: () => void;
+}
+
+// Rendered tile widths for the 2 / 3 / 4 column layouts below
+const TILE_SIZES = '(min-width: 1024px) 15rem, (min-width: 640px) 30vw, 45vw';
+
+// Thumbnail overview of an exhibit; picking a tile returns to the carousel there
+const ExhibitGrid: React.FC<ExhibitGridProps> = ({
+  items,
+  currentIndex,
+  remainingCount,
+  loadingMore,
+  onSelect,
+  onLoadMore,
+  onClose,
+}) => {
+  const currentTileRef = useRef<HTMLButtonElement>(null);
+
+  // Start with the slide we came from in view
+  useEffect(() => {
+    currentTileRef.current?.scrollIntoView({ block: 'center' });
+  }, []);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-4 pt-6 pb-16 md:pt-10">
+      <div className="flex items-center justify-between mb-4 px-1">
+        <span className="text-sm tabular-nums opacity-80">
+          {t('grid.count', { count: items.length + remainingCount })}
+        </span>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onClose();
+          }}
+          aria-label={t('grid.close')}
+          className="p-2 rounded-full hover:bg-black/10 backdrop-blur-sm transition-all"
+          style={{ color: 'inherit' }}
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+        {items.map((item, idx) => {
+          const asset = item.image?.asset;
+          if (!asset) return null;
+          const isCurrent = idx === currentIndex;
+          return (
+            <li key={asset.assetId || idx}>
+              <button
+                ref={isCurrent ? currentTileRef : undefined}
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect(idx);
+                }}
+                aria-label={item.title || t('detail.photoNumber', { number: idx + 1 })}
+                aria-current={isCurrent || undefined}
+                className={`group relative block w-full aspect-square overflow-hidden bg-black/10 cursor-pointer ${
+                  isCurrent ? 'ring-2 ring-current' : ''
+                }`}
+                style={{ backgroundColor: asset.metadata?.palette?.dominant?.background }}
+              >
+                <ResponsiveImage
+                  asset={asset}
+                  sizes={TILE_SIZES}
+                  maxWidth={800}
+                  alt=""
+                  loading="lazy"
+                  decoding="async"
+                  draggable={false}
+                  className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+                />
+                {item.title && (
+                  <span className="absolute inset-x-0 bottom-0 px-2 pb-2 pt-6 text-left text-xs font-medium text-white bg-gradient-to-t from-black/70 to-transparent line-clamp-2 opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100 transition-opacity">
+                    {item.title}
+                  </span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {remainingCount > 0 && (
+        <div className="flex justify-center mt-8">
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onLoadMore();
+            }}
+            disabled={loadingMore}
+            className="inline-flex items-center gap-2 rounded-full px-4 py-2 text-sm font-medium bg-black/10 hover:bg-black/20 disabled:opacity-60 transition-colors"
+          >
+            {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+            {t('grid.loadMore')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExhibitGrid;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { FavoriteCollection } from '../services/favorites';
+import { t } from '../i18n';
+import { Heart } from './Icons';
+
+interface FavoriteControlsProps {
+  assetId?: string;
+  favorited: boolean;
+  collections: FavoriteCollection[];
+  onToggleFavorite: () => void;
+  onToggleCollection: (collectionId: string) => void;
+  onCreateCollection: (name: string) => void;
+}
+
+// Heart toggle plus a small menu to file the current photo into collections
+const FavoriteControls: React.FC<FavoriteControlsProps> = ({
+  assetId,
+  favorited,
+  collections,
+  onToggleFavorite,
+  onToggleCollection,
+  onCreateCollection,
+}) => {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreateCollection(newName);
+    setNewName('');
+  };
+
+  return (
+    <div
+      className="relative flex items-center gap-1 pointer-events-auto"
+      onClick={(e) => e.stopPropagation()}
+      // Keep typing in the menu from reaching the carousel's arrow-key handler
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        onClick={onToggleFavorite}
+        disabled={!assetId}
+        aria-pressed={favorited}
+        aria-label={favorited ? t('favorites.remove') : t('favorites.add')}
+        className="p-2 rounded-full hover:bg-black/10 backdrop-blur-sm disabled:opacity-30 transition-all"
+        style={{ color: 'inherit' }}
+      >
+        <Heart className={`w-5 h-5 transition-transform ${favorited ? 'fill-current scale-110' : ''}`} />
+      </button>
+
+      {favorited && (
+        <button
+          type="button"
+          onClick={() => setMenuOpen(open => !open)}
+          aria-expanded={menuOpen}
+          className="px-2 py-1 rounded-full text-xs font-medium hover:bg-black/10 backdrop-blur-sm transition-all"
+          style={{ color: 'inherit' }}
+        >
+          {t('favorites.collections')}
+        </button>
+      )}
+
+      {favorited && menuOpen && assetId && (
+        <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-64 rounded-xl bg-zinc-900/95 text-zinc-100 shadow-2xl p-3 flex flex-col gap-2 text-sm">
+          {collections.length === 0 && (
+            <p className="text-zinc-400 text-xs">{t('favorites.noCollections')}</p>
+          )}
+          {collections.map(collection => (
+            <label key={collection.id} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={collection.assetIds.includes(assetId)}
+                onChange={() => onToggleCollection(collection.id)}
+              />
+              <span className="truncate">{collection.name}</span>
+            </label>
+          ))}
+          <form onSubmit={handleCreate} className="flex gap-2 pt-2 border-t border-white/10">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={t('favorites.newCollection')}
+              className="min-w-0 flex-1 rounded-md bg-white/10 px-2 py-1 outline-none focus:ring-1 focus:ring-white/30"
+            />
+            <button type="submit" className="rounded-md px-2 py-1 bg-white/10 hover:bg-white/20">
+              {t('favorites.createCollection')}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FavoriteControls;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Locale, LOCALE_NAMES, LOCALES, setLocale, t } from '../i18n';
+
+interface LanguageSwitcherProps {
+  locale: Locale;
+}
+
+// Compact language toggle; the choice is kept in `?lang=` and localStorage
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ locale }) => (
+  <div role="radiogroup" aria-label={t('app.language')} className="mr-auto inline-flex items-center gap-1">
+    {LOCALES.map(option => (
+      <button
+        key={option}
+        type="button"
+        role="radio"
+        aria-checked={option === locale}
+        lang={option}
+        onClick={() => setLocale(option)}
+        className={`rounded-full px-2 py-1 transition-colors ${
+          option === locale ? 'bg-white/10 text-zinc-200' : 'text-zinc-500 hover:text-zinc-300 hover:bg-white/5'
+        }`}
+      >
+        {LOCALE_NAMES[option]}
+      </button>
+    ))}
+  </div>
+);
+
+export default LanguageSwitcher;
@@ -1,70 +1,295 @@
-import React, { useEffect, useState } from 'react';
-import { GalleryItem, PortableTextBlock } from '../types';
-import { getOptimizedImageUrl } from '../services/api';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GalleryItem } from '../types';
+import { getAssetDimensions } from '../services/api';
+import { t } from '../i18n';
+import { isValidBlurHash } from '../utils/blurhash';
+import PortableText from './PortableText';
+import BlurHashCanvas from './BlurHashCanvas';
+import ResponsiveImage from './ResponsiveImage';
+import { ChevronLeft, XIcon } from './Icons';
 
 interface LightboxProps {
-  item: GalleryItem;
+  items: GalleryItem[];
+  index: number;
+  onIndexChange: (index: number) => void;
   onClose: () => void;
 }
 
-const renderDescription = (desc: string | PortableTextBlock[] | undefined) => {
-  if (!desc) return null;
-  if (typeof desc === 'string') return desc;
-  if (Array.isArray(desc)) {
-    return desc.map(block => {
-      if (block._type === 'block' && block.children) {
-        return block.children.map(span => span.text).join('');
-      }
-      return '';
-    }).join('\n');
-  }
-  return null;
-};
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
 
-const Lightbox: React.FC<LightboxProps> = ({ item, onClose }) => {
+const FIT: Transform = { scale: 1, x: 0, y: 0 };
+const MAX_SCALE = 6;
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP_PX = 10;
+// Largest candidate offered to the stage; the full-screen image on hi-dpi displays
+const LIGHTBOX_MAX_WIDTH = 4000;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+const Lightbox: React.FC<LightboxProps> = ({ items, index, onIndexChange, onClose }) => {
   const [isLoaded, setIsLoaded] = useState(false);
-  const asset = item.image?.asset;
+  const [transform, setTransform] = useState<Transform>(FIT);
+  const [gesturing, setGesturing] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  // Active pointers and the gesture they started (pinch or pan)
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<{ startDistance: number; startScale: number; last: Point; moved: number } | null>(null);
+  const lastTap = useRef(0);
+
+  const item = items[index];
+  const asset = item?.image?.asset;
 
-  // Use a high-quality version for the lightbox
-  const imageUrl = asset ? getOptimizedImageUrl(asset.url, 2000) : '';
+  const blurHash = asset?.metadata?.blurHash;
+
+  const hasPrev = index > 0;
+  const hasNext = index < items.length - 1;
+
+  // Keep the image from being dragged completely out of view
+  const clamp = useCallback((next: Transform): Transform => {
+    const stage = stageRef.current;
+    const image = imageRef.current;
+    const scale = Math.min(MAX_SCALE, Math.max(1, next.scale));
+    if (!stage || !image || scale === 1) return { scale: 1, x: 0, y: 0 };
+    const maxX = Math.max(0, (image.offsetWidth * scale - stage.clientWidth) / 2);
+    const maxY = Math.max(0, (image.offsetHeight * scale - stage.clientHeight) / 2);
+    return {
+      scale,
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  }, []);
+
+  // Zoom so the point under `clientPoint` stays put
+  const zoomAt = useCallback((clientPoint: Point, getScale: (prevScale: number) => number) => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const rect = stage.getBoundingClientRect();
+    const px = clientPoint.x - rect.left - rect.width / 2;
+    const py = clientPoint.y - rect.top - rect.height / 2;
+    setTransform(prev => {
+      const scale = Math.min(MAX_SCALE, Math.max(1, getScale(prev.scale)));
+      const ratio = scale / prev.scale;
+      return clamp({ scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio });
+    });
+  }, [clamp]);
+
+  // Double tap toggles between fit-to-screen and the photo's original (100%) size.
+  // naturalWidth only reflects the srcset candidate, so use the asset's own dimensions.
+  const toggleZoom = (clientPoint: Point) => {
+    const image = imageRef.current;
+    if (transform.scale > 1 || !image || !asset) {
+      setTransform(FIT);
+      return;
+    }
+    const originalWidth = getAssetDimensions(asset)?.width ?? image.naturalWidth;
+    const naturalScale = originalWidth / window.devicePixelRatio / image.offsetWidth;
+    zoomAt(clientPoint, () => (naturalScale > 1.1 ? naturalScale : 2));
+  };
+
+  // Reset zoom whenever the slide changes
+  useEffect(() => {
+    setIsLoaded(false);
+    setTransform(FIT);
+  }, [index]);
 
   useEffect(() => {
-    const handleEsc = (e: KeyboardEvent) => {
+    const handleKey = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && hasPrev) onIndexChange(index - 1);
+      else if (e.key === 'ArrowRight' && hasNext) onIndexChange(index + 1);
     };
-    window.addEventListener('keydown', handleEsc);
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [index, hasPrev, hasNext, onIndexChange, onClose]);
+
+  useEffect(() => {
     document.body.style.overflow = 'hidden'; // Prevent scrolling
     return () => {
-      window.removeEventListener('keydown', handleEsc);
       document.body.style.overflow = '';
     };
-  }, [onClose]);
+  }, []);
+
+  // Wheel zoom; registered natively so ctrl+wheel (trackpad pinch) can be prevented
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const speed = e.ctrlKey ? 0.01 : 0.002;
+      zoomAt({ x: e.clientX, y: e.clientY }, prevScale => prevScale * Math.exp(-e.deltaY * speed));
+    };
+    stage.addEventListener('wheel', handleWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const active = [...pointers.current.values()];
+    gesture.current = {
+      startDistance: active.length === 2 ? distance(active[0], active[1]) : 0,
+      startScale: transform.scale,
+      last: active.length === 2 ? midpoint(active[0], active[1]) : active[0],
+      moved: 0,
+    };
+    setGesturing(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const active = [...pointers.current.values()];
+    const g = gesture.current;
+
+    if (active.length === 2 && g.startDistance > 0) {
+      // Pinch: scale around the midpoint of both fingers
+      const center = midpoint(active[0], active[1]);
+      const pinchScale = g.startScale * (distance(active[0], active[1]) / g.startDistance);
+      zoomAt(center, () => pinchScale);
+      g.moved += TAP_SLOP_PX;
+      g.last = center;
+    } else if (active.length === 1) {
+      // Drag to pan while zoomed
+      const dx = active[0].x - g.last.x;
+      const dy = active[0].y - g.last.y;
+      g.moved += Math.abs(dx) + Math.abs(dy);
+      g.last = active[0];
+      if (transform.scale > 1) {
+        setTransform(prev => clamp({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+      }
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const wasTap = pointers.current.size === 1 && (gesture.current?.moved ?? 0) < TAP_SLOP_PX;
+    pointers.current.delete(e.pointerId);
+    const remaining = [...pointers.current.values()];
+
+    if (remaining.length === 1 && gesture.current) {
+      // Pinch ended with one finger down: continue as a pan from here
+      gesture.current = { ...gesture.current, startDistance: 0, last: remaining[0] };
+      return;
+    }
+    if (remaining.length === 0) {
+      gesture.current = null;
+      setGesturing(false);
+    }
+
+    if (wasTap) {
+      const now = Date.now();
+      if (now - lastTap.current < DOUBLE_TAP_MS) {
+        toggleZoom({ x: e.clientX, y: e.clientY });
+        lastTap.current = 0;
+      } else {
+        lastTap.current = now;
+      }
+    }
+  };
 
   if (!asset) return null;
 
   return (
     <div
-      className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 backdrop-blur-sm p-4 animate-in fade-in duration-200 cursor-zoom-out"
-      onClick={onClose}
+      className="fixed inset-0 z-50 flex flex-col bg-black/95 backdrop-blur-sm animate-in fade-in duration-200 text-white"
+      onClick={(e) => e.stopPropagation()}
     >
+      {/* Top Bar */}
+      <div className="flex items-center justify-between px-4 py-3 text-sm text-zinc-300">
+        <span className="tabular-nums">{index + 1} / {items.length}</span>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label={t('lightbox.close')}
+          className="p-2 rounded-full hover:bg-white/10 transition-colors"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      {/* Zoom Stage */}
       <div
-        className="relative max-w-full max-h-full flex flex-col items-center justify-center"
+        ref={stageRef}
+        className={`relative flex-1 overflow-hidden flex items-center justify-center select-none ${
+          transform.scale > 1 ? (gesturing ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-zoom-in'
+        }`}
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
       >
-        <img
-          src={imageUrl}
-          alt={item.title || 'Gallery image'}
-          className={`max-h-[85vh] max-w-full object-contain shadow-2xl transition-opacity duration-500 ${isLoaded ? 'opacity-100' : 'opacity-0'}`}
+        {isValidBlurHash(blurHash) && (
+          <BlurHashCanvas
+            hash={blurHash}
+            aspectRatio={asset.metadata?.dimensions?.aspectRatio}
+            className={`absolute inset-0 w-full h-full object-contain transition-opacity duration-500 pointer-events-none ${
+              isLoaded ? 'opacity-0' : 'opacity-100'
+            }`}
+          />
+        )}
+        <ResponsiveImage
+          ref={imageRef}
+          key={asset.url}
+          asset={asset}
+          sizes="100vw"
+          maxWidth={LIGHTBOX_MAX_WIDTH}
+          alt={item.title || t('detail.photoAlt')}
+          draggable={false}
+          className={`relative max-h-full max-w-full object-contain shadow-2xl ${gesturing ? '' : 'transition-transform duration-200'} ${
+            isLoaded ? 'opacity-100' : 'opacity-0'
+          }`}
+          style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
           onLoad={() => setIsLoaded(true)}
         />
 
-        <div className={`mt-4 text-center transition-opacity duration-500 ${isLoaded ? 'opacity-100' : 'opacity-0'}`}>
-          {item.title && (
-            <h2 className="text-xl font-bold text-white tracking-wide">{item.title}</h2>
-          )}
-          {item.desc && (
-            <p className="mt-2 text-sm text-zinc-400 max-w-2xl mx-auto">{renderDescription(item.desc)}</p>
-          )}
-        </div>
+        {/* Prev / Next */}
+        {hasPrev && (
+          <button
+            type="button"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => onIndexChange(index - 1)}
+            aria-label={t('detail.previous')}
+            className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/30 hover:bg-black/50 transition-colors"
+          >
+            <ChevronLeft className="w-7 h-7" />
+          </button>
+        )}
+        {hasNext && (
+          <button
+            type="button"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => onIndexChange(index + 1)}
+            aria-label={t('detail.next')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/30 hover:bg-black/50 transition-colors"
+          >
+            <ChevronLeft className="w-7 h-7 rotate-180" />
+          </button>
+        )}
+      </div>
+
+      {/* Caption */}
+      <div className={`px-6 py-4 text-center transition-opacity duration-500 ${isLoaded && transform.scale === 1 ? 'opacity-100' : 'opacity-0'}`}>
+        {item.title && (
+          <h2 className="text-xl font-bold text-white tracking-wide">{item.title}</h2>
+        )}
+        {item.desc && (
+          <PortableText
+            value={item.desc}
+            className="mt-2 text-sm text-zinc-400 max-w-2xl mx-auto space-y-2"
+          />
+        )}
       </div>
     </div>
   );
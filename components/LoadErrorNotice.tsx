@@ -0,0 +1,29 @@
+import React from 'react';
+import { describeFetchError } from '../services/errors';
+import { t } from '../i18n';
+import { AlertTriangle, RefreshCw } from './Icons';
+
+interface LoadErrorNoticeProps {
+  error: unknown;
+  onRetry: () => void;
+  retrying?: boolean;
+}
+
+// In-place error for one home tab; the rest of the page keeps working
+const LoadErrorNotice: React.FC<LoadErrorNoticeProps> = ({ error, onRetry, retrying = false }) => (
+  <div role="alert" className="flex flex-col items-center justify-center text-center px-6 py-16 gap-4">
+    <AlertTriangle className="w-8 h-8 text-polaroid-red" />
+    <p className="text-zinc-400 max-w-md">{describeFetchError(error)}</p>
+    <button
+      type="button"
+      onClick={onRetry}
+      disabled={retrying}
+      className="inline-flex items-center gap-2 px-6 py-2 bg-zinc-800 text-white rounded-full text-sm font-medium disabled:opacity-50 disabled:pointer-events-none"
+    >
+      <RefreshCw className={`w-4 h-4 ${retrying ? 'animate-spin' : ''}`} />
+      {retrying ? t('errors.retrying') : t('errors.retry')}
+    </button>
+  </div>
+);
+
+export default LoadErrorNotice;
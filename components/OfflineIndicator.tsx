@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { WifiOff } from './Icons';
+import { t } from '../i18n';
+
+// Pill shown while the browser reports no connection; cached and saved content keeps working
+const OfflineIndicator: React.FC = () => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (online) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-4 z-[60] inline-flex items-center gap-2 rounded-full bg-zinc-900/90 px-3 py-1.5 text-xs font-medium text-zinc-100 shadow-xl backdrop-blur-sm pointer-events-none"
+    >
+      <WifiOff className="w-4 h-4" />
+      {t('offline.indicator')}
+    </div>
+  );
+};
+
+export default OfflineIndicator;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { SanityPalette } from '../types';
+import { getSwatchLabel, PALETTE_SWATCH_KEYS, PaletteSwatchKey } from '../utils/palette';
+import { t } from '../i18n';
+import { parseColor, toHex } from '../utils/color';
+import { Palette } from './Icons';
+
+interface PaletteInspectorProps {
+  palette?: SanityPalette;
+  /** Swatch currently driving the adaptive background. */
+  backgroundSwatch: PaletteSwatchKey;
+  onBackgroundSwatchChange: (key: PaletteSwatchKey) => void;
+  onCopy: (hex: string) => void;
+}
+
+// Every swatch of the current photo with its share of the image
+const PaletteInspector: React.FC<PaletteInspectorProps> = ({
+  palette,
+  backgroundSwatch,
+  onBackgroundSwatchChange,
+  onCopy,
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const swatches = PALETTE_SWATCH_KEYS.flatMap(key => {
+    const color = parseColor(palette?.[key]?.background);
+    return color ? [{ key, hex: toHex(color), population: palette?.[key]?.population ?? 0 }] : [];
+  });
+  const maxPopulation = Math.max(0, ...swatches.map(swatch => swatch.population));
+
+  return (
+    <div className="relative flex items-center pointer-events-auto" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        disabled={swatches.length === 0}
+        aria-expanded={open}
+        aria-label={t('palette.button')}
+        className="p-2 rounded-full hover:bg-black/10 backdrop-blur-sm disabled:opacity-30 transition-all"
+        style={{ color: 'inherit' }}
+      >
+        <Palette className="w-5 h-5" />
+      </button>
+
+      {open && swatches.length > 0 && (
+        <div className="absolute bottom-full mb-3 right-0 w-72 rounded-xl bg-zinc-900/95 text-zinc-100 shadow-2xl p-3 flex flex-col gap-2 text-sm">
+          <p className="text-xs text-zinc-400">{t('palette.hint')}</p>
+          <ul className="flex flex-col gap-1.5" role="radiogroup" aria-label={t('palette.swatches')}>
+            {swatches.map(({ key, hex, population }) => (
+              <li key={key} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  role="radio"
+                  aria-checked={backgroundSwatch === key}
+                  aria-label={t('palette.useAsBackground', { swatch: getSwatchLabel(key) })}
+                  onClick={() => onBackgroundSwatchChange(key)}
+                  className={`w-7 h-7 shrink-0 rounded-full ring-offset-2 ring-offset-zinc-900 transition-shadow ${
+                    backgroundSwatch === key ? 'ring-2 ring-white' : 'ring-1 ring-white/20 hover:ring-white/60'
+                  }`}
+                  style={{ backgroundColor: hex }}
+                />
+                <div className="min-w-0 flex-1 flex flex-col gap-1">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="truncate">{getSwatchLabel(key)}</span>
+                    <button
+                      type="button"
+                      onClick={() => onCopy(hex)}
+                      className="font-mono text-xs text-zinc-400 hover:text-zinc-100 transition-colors"
+                    >
+                      {hex}
+                    </button>
+                  </div>
+                  <div className="h-1 rounded-full bg-white/10 overflow-hidden" aria-hidden>
+                    <div
+                      className="h-full rounded-full"
+                      style={{
+                        width: `${maxPopulation > 0 ? (population / maxPopulation) * 100 : 0}%`,
+                        backgroundColor: hex,
+                      }}
+                    />
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaletteInspector;
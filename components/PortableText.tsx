@@ -0,0 +1,83 @@
+import React from 'react';
+import { PortableTextBlock, PortableTextMarkDef, PortableTextSpan } from '../types';
+
+interface PortableTextProps {
+  value: string | PortableTextBlock[] | undefined;
+  className?: string;
+  paragraphClassName?: string;
+}
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only allow absolute links with a known-safe protocol (no javascript: etc.)
+const getSafeHref = (href: string | undefined) => {
+  if (!href) return null;
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const renderSpan = (span: PortableTextSpan, markDefs: PortableTextMarkDef[], key: React.Key) => {
+  let node: React.ReactNode = span.text;
+
+  for (const mark of span.marks || []) {
+    if (mark === 'strong') {
+      node = <strong className="font-semibold">{node}</strong>;
+    } else if (mark === 'em') {
+      node = <em>{node}</em>;
+    } else {
+      const def = markDefs.find(d => d._key === mark);
+      const href = def?._type === 'link' ? getSafeHref(def.href) : null;
+      if (href) {
+        node = (
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline underline-offset-2 hover:opacity-80"
+            // Links live inside clickable slides; don't let the click close the view
+            onClick={(e) => e.stopPropagation()}
+          >
+            {node}
+          </a>
+        );
+      }
+    }
+  }
+
+  return <React.Fragment key={key}>{node}</React.Fragment>;
+};
+
+/**
+ * Renders Portable Text descriptions as paragraphs with emphasis, strong and
+ * external links. Plain string descriptions render as a single paragraph.
+ */
+const PortableText: React.FC<PortableTextProps> = ({ value, className, paragraphClassName }) => {
+  if (!value) return null;
+
+  if (typeof value === 'string') {
+    return (
+      <div className={className}>
+        <p className={paragraphClassName}>{value}</p>
+      </div>
+    );
+  }
+
+  const blocks = value.filter(block => block._type === 'block' && block.children);
+  if (blocks.length === 0) return null;
+
+  return (
+    <div className={className}>
+      {blocks.map((block, i) => (
+        <p key={block._key || i} className={paragraphClassName}>
+          {block.children.map((span, j) => renderSpan(span, block.markDefs || [], span._key || j))}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default PortableText;
@@ -0,0 +1,41 @@
+import React, { forwardRef } from 'react';
+import { SanityAsset } from '../types';
+import { getAssetDimensions, getResponsiveImage } from '../services/api';
+
+type ImgProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'sizes'>;
+
+interface ResponsiveImageProps extends ImgProps {
+  asset: SanityAsset;
+  /** `sizes` attribute describing the rendered width. */
+  sizes: string;
+  /** Upper bound for the largest candidate, in pixels. */
+  maxWidth?: number;
+}
+
+/**
+ * <img> with candidates at several widths. The CDN picks the format per
+ * request (`auto=format`: AVIF where accepted, WebP otherwise), so no
+ * <picture> sources are needed and a format the CDN can't serve never breaks the image.
+ */
+const ResponsiveImage = forwardRef<HTMLImageElement, ResponsiveImageProps>(
+  ({ asset, sizes, maxWidth, width, height, ...imgProps }, ref) => {
+    const image = getResponsiveImage(asset, sizes, maxWidth);
+    const dimensions = getAssetDimensions(asset);
+
+    return (
+      <img
+        ref={ref}
+        src={image.src}
+        srcSet={image.srcSet}
+        sizes={image.sizes}
+        width={width ?? dimensions?.width}
+        height={height ?? dimensions?.height}
+        {...imgProps}
+      />
+    );
+  }
+);
+
+ResponsiveImage.displayName = 'ResponsiveImage';
+
+export default ResponsiveImage;
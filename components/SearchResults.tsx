@@ -0,0 +1,62 @@
+import React from 'react';
+import { ExhibitItem } from '../types';
+import { getOptimizedImageUrl } from '../services/api';
+import { SearchHit } from '../utils/search';
+import { t } from '../i18n';
+
+interface SearchResultsProps {
+  query: string;
+  hits: SearchHit[];
+  onSelect: (exhibit: ExhibitItem, initialIndex?: number) => void;
+}
+
+const SearchResults: React.FC<SearchResultsProps> = ({ query, hits, onSelect }) => {
+  if (hits.length === 0) {
+    return (
+      <p className="px-3 text-zinc-500 text-sm md:text-base">
+        {t('search.noResults', { query })}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {hits.map((hit) => {
+        // Photo hits show the photo, exhibit hits show the cover
+        const asset = hit.item?.image?.asset || hit.exhibit.coverImages?.[0]?.asset;
+        const isPhoto = hit.slideIndex !== undefined;
+        return (
+          <li key={`${hit.exhibit.identifier}:${hit.slideIndex ?? 'exhibit'}`}>
+            <button
+              type="button"
+              onClick={() => onSelect(hit.exhibit, hit.slideIndex)}
+              className="w-full flex items-center gap-4 rounded-xl p-3 text-left bg-white/5 hover:bg-white/10 transition-colors cursor-pointer"
+            >
+              {asset ? (
+                <img
+                  src={getOptimizedImageUrl(asset.url, 160)}
+                  alt=""
+                  loading="lazy"
+                  decoding="async"
+                  className="w-14 h-16 flex-shrink-0 object-cover bg-white p-1"
+                />
+              ) : (
+                <div className="w-14 h-16 flex-shrink-0 bg-white/5" />
+              )}
+              <div className="min-w-0 flex flex-col">
+                <span className="font-semibold text-zinc-100 truncate">
+                  {isPhoto ? hit.item?.title || t('exhibit.untitled') : hit.exhibit.title}
+                </span>
+                <span className="text-sm text-zinc-400 truncate">
+                  {isPhoto ? hit.exhibit.title : hit.exhibit.subtitle || t('exhibit.fallback')}
+                </span>
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { t } from '../i18n';
+
+interface SlideScrubberProps {
+  index: number;
+  /** Slides in the exhibit, including ones not fetched yet. */
+  total: number;
+  /** Slides that can be scrolled to right now. */
+  loaded: number;
+  onChange: (index: number) => void;
+}
+
+// Range slider with a counter; stands in for the dots on large galleries
+const SlideScrubber: React.FC<SlideScrubberProps> = ({ index, total, loaded, onChange }) => (
+  <div
+    className="flex items-center gap-3 pointer-events-auto"
+    onClick={(e) => e.stopPropagation()}
+    // Keep arrow keys on the slider from also reaching the carousel's key handler
+    onKeyDown={(e) => e.stopPropagation()}
+  >
+    <input
+      type="range"
+      min={0}
+      max={Math.max(0, total - 1)}
+      value={index}
+      onChange={(e) => onChange(Math.min(Number(e.target.value), loaded - 1))}
+      aria-label={t('scrubber.label')}
+      aria-valuetext={t('scrubber.value', { number: index + 1, total })}
+      className="w-32 md:w-48 accent-current cursor-pointer"
+    />
+    <span className="text-sm tabular-nums opacity-80 min-w-[4.5rem] text-center">
+      {index + 1} / {total}
+    </span>
+  </div>
+);
+
+export default SlideScrubber;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { SLIDESHOW_INTERVALS, SlideshowSettings } from '../services/slideshow';
+import { t } from '../i18n';
+import { Pause, Play } from './Icons';
+
+interface SlideshowControlsProps {
+  playing: boolean;
+  /** The timer is counting down (playing and not paused by interaction or a hidden tab). */
+  running: boolean;
+  /** Changes whenever the countdown restarts, so the progress ring restarts with it. */
+  progressKey: string;
+  settings: SlideshowSettings;
+  onToggle: () => void;
+  onSettingsChange: (settings: SlideshowSettings) => void;
+}
+
+// Play/pause with a progress ring, plus a small menu for the timing
+const SlideshowControls: React.FC<SlideshowControlsProps> = ({
+  playing,
+  running,
+  progressKey,
+  settings,
+  onToggle,
+  onSettingsChange,
+}) => {
+  const [menuOpen, setMenuOpen] = useState(false);
+
+  return (
+    <div className="relative flex items-center gap-1 pointer-events-auto" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={onToggle}
+        aria-pressed={playing}
+        aria-label={playing ? t('slideshow.pause') : t('slideshow.play')}
+        className="relative p-2 rounded-full hover:bg-black/10 backdrop-blur-sm transition-all"
+        style={{ color: 'inherit' }}
+      >
+        {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        {playing && (
+          <svg viewBox="0 0 36 36" className="absolute inset-0 w-full h-full -rotate-90 pointer-events-none" aria-hidden>
+            <circle cx="18" cy="18" r="16" fill="none" stroke="currentColor" strokeWidth="2" opacity="0.2" />
+            <circle
+              key={progressKey}
+              cx="18"
+              cy="18"
+              r="16"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              pathLength={100}
+              strokeDasharray="100"
+              strokeDashoffset={running ? undefined : 100}
+              style={{ animation: running ? `slideshow-progress ${settings.intervalMs}ms linear forwards` : 'none' }}
+            />
+          </svg>
+        )}
+      </button>
+
+      <button
+        type="button"
+        onClick={() => setMenuOpen(open => !open)}
+        aria-expanded={menuOpen}
+        aria-label={t('slideshow.settings')}
+        className="px-2 py-1 rounded-full text-xs font-medium tabular-nums hover:bg-black/10 backdrop-blur-sm transition-all"
+        style={{ color: 'inherit' }}
+      >
+        {settings.intervalMs / 1000}s
+      </button>
+
+      {menuOpen && (
+        <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-56 rounded-xl bg-zinc-900/95 text-zinc-100 shadow-2xl p-3 flex flex-col gap-3 text-sm">
+          <div className="flex gap-1" role="radiogroup" aria-label={t('slideshow.interval')}>
+            {SLIDESHOW_INTERVALS.map(intervalMs => (
+              <button
+                key={intervalMs}
+                type="button"
+                role="radio"
+                aria-checked={settings.intervalMs === intervalMs}
+                onClick={() => onSettingsChange({ ...settings, intervalMs })}
+                className={`flex-1 rounded-md px-2 py-1 tabular-nums transition-colors ${
+                  settings.intervalMs === intervalMs ? 'bg-white/20' : 'bg-white/5 hover:bg-white/10'
+                }`}
+              >
+                {intervalMs / 1000}s
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.continueToNext}
+              onChange={(e) => onSettingsChange({ ...settings, continueToNext: e.target.checked })}
+            />
+            <span>{t('slideshow.continue')}</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlideshowControls;
@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface ToastProps {
+  message: string;
+  visible: boolean;
+}
+
+// Transient status message pinned to the top of the viewport
+const Toast: React.FC<ToastProps> = ({ message, visible }) => (
+  <div
+    role="status"
+    aria-live="polite"
+    className={`fixed top-4 left-1/2 -translate-x-1/2 z-[60] rounded-full bg-zinc-900/90 px-4 py-2 text-sm font-medium text-zinc-100 shadow-xl backdrop-blur-sm transition-all duration-300 pointer-events-none ${
+      visible ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-2'
+    }`}
+  >
+    {message}
+  </div>
+);
+
+export default Toast;
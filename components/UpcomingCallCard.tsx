@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { ExhibitItem } from '../types';
+import { getOptimizedImageUrl } from '../services/api';
+import { formatDate } from '../utils/date';
+import { getReadableTextColor } from '../utils/color';
+import { t } from '../i18n';
+
+interface UpcomingCallCardProps {
+  call: ExhibitItem;
+  /** Called once when the countdown reaches zero. */
+  onOpen: (call: ExhibitItem) => void;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// e.g. "3d 04h 12m 09s"
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const parts = {
+    days,
+    hours: pad(Math.floor((totalSeconds % 86400) / 3600)),
+    minutes: pad(Math.floor((totalSeconds % 3600) / 60)),
+    seconds: pad(totalSeconds % 60),
+  };
+  return t(days > 0 ? 'creativeCall.countdownDays' : 'creativeCall.countdown', parts);
+};
+
+const UpcomingCallCard: React.FC<UpcomingCallCardProps> = ({ call, onOpen }) => {
+  const beginAt = call.creativeCall?.beginAt;
+  const startsAt = beginAt ? Date.parse(beginAt) : NaN;
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = startsAt - now;
+
+  // Live countdown, ticking once per second until the call opens
+  useEffect(() => {
+    if (isNaN(startsAt)) return;
+    if (startsAt <= Date.now()) {
+      onOpen(call);
+      return;
+    }
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= startsAt) {
+        clearInterval(timer);
+        onOpen(call);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [call, startsAt, onOpen]);
+
+  const asset = call.coverImages?.[0]?.asset;
+  const palette = asset?.metadata?.palette;
+  const bgColor = palette?.dominant?.background || '#151520';
+  const txtColor = getReadableTextColor(bgColor, palette?.dominant?.foreground);
+
+  return (
+    <div
+      className="rounded-2xl overflow-hidden shadow-xl flex flex-col sm:flex-row"
+      style={{ backgroundColor: bgColor, color: txtColor }}
+    >
+      {asset && (
+        <img
+          src={getOptimizedImageUrl(asset.url, 800)}
+          alt=""
+          loading="lazy"
+          decoding="async"
+          className="w-full sm:w-2/5 aspect-[4/3] object-cover"
+        />
+      )}
+      <div className="flex flex-col justify-center gap-2 p-6">
+        <span className="text-xs font-medium uppercase tracking-wider opacity-70">
+          {call.subtitle || t('tabs.creative')}
+        </span>
+        <h3 className="text-2xl md:text-3xl font-bold leading-tight">{call.title}</h3>
+        {beginAt && <p className="text-sm opacity-80">{t('creativeCall.opens', { date: formatDate(beginAt) })}</p>}
+        {!isNaN(remaining) && (
+          <p className="mt-2 text-xl md:text-2xl font-semibold tabular-nums" aria-live="off">
+            {formatCountdown(remaining)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UpcomingCallCard;
@@ -0,0 +1,133 @@
+/** Plural forms, picked with Intl.PluralRules from the `count` param. */
+export interface PluralMessage {
+  one?: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+/**
+ * English strings; also the reference catalogue: every key here must exist in
+ * each locale. `{name}` placeholders are filled from the params passed to t().
+ */
+export const en = {
+  'app.title': 'Polaroid App Selections',
+  'app.documentTitle.exhibit': '{exhibit} | {app}',
+  'app.documentTitle.photo': '{photo} - {exhibit} | {app}',
+  'app.language': 'Language',
+
+  'tabs.weekly': 'Weekly 8',
+  'tabs.creative': 'Creative Call',
+  'tabs.favorites': 'Favorites',
+  'tabs.weekly.description': 'Explore fresh galleries curated by the Polaroid team.',
+  'tabs.creative.description': 'Browse recent Creative Call submissions.',
+  'tabs.favorites.description': 'Your saved photos and collections.',
+
+  'exhibit.weeklyFallback': 'Weekly 8 Gallery',
+  'exhibit.untitled': 'Untitled',
+  'exhibit.fallback': 'Exhibit',
+
+  'search.placeholder': 'Search photos and exhibits',
+  'search.noResults': 'No photos or exhibits match “{query}”.',
+
+  'colorSearch.label': 'Search by color',
+  'colorSearch.clear': 'Clear color search',
+  'colorSearch.noResults': 'No photos are close to {color}.',
+  'colorSearch.fallback': 'Color search',
+  'colorSearch.title': 'Color {hex}',
+  'colorSearch.subtitle': { one: 'Color search · {count} photo', other: 'Color search · {count} photos' },
+
+  'favorites.empty': 'Tap the heart on any photo to save it here.',
+  'favorites.all': 'All favorites',
+  'favorites.subtitle': { one: 'Favorites · {count} photo', other: 'Favorites · {count} photos' },
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.collections': 'Collections',
+  'favorites.noCollections': 'No collections yet.',
+  'favorites.newCollection': 'New collection',
+  'favorites.createCollection': 'Add',
+  'favorites.deleteCollection': 'Delete collection',
+
+  'creativeCall.comingSoon': 'Coming soon',
+  'creativeCall.opens': 'Opens {date}',
+  'creativeCall.countdown': '{hours}h {minutes}m {seconds}s',
+  'creativeCall.countdownDays': '{days}d {hours}h {minutes}m {seconds}s',
+  'creativeCall.viewSubmissions': { one: 'View {count} submission', other: 'View {count} submissions' },
+  'creativeCall.status.upcoming': 'Upcoming',
+  'creativeCall.status.ongoing': 'Ongoing',
+  'creativeCall.status.ended': 'Ended',
+
+  'date.range': '{begin} – {end}',
+  'date.from': 'From {date}',
+  'date.until': 'Until {date}',
+
+  'detail.previous': 'Previous photo',
+  'detail.next': 'Next photo',
+  'detail.goToSlide': 'Go to slide {number}',
+  'detail.showAll': 'Show all photos',
+  'detail.saveOffline': 'Save exhibit for offline',
+  'detail.removeOffline': 'Remove offline copy',
+  'detail.share': 'Share photo',
+  'detail.photoAlt': 'Gallery image',
+  'detail.photoNumber': 'Photo {number}',
+
+  'grid.count': { one: '{count} photo', other: '{count} photos' },
+  'grid.close': 'Back to carousel',
+  'grid.loadMore': 'Load more',
+
+  'scrubber.label': 'Scrub through photos',
+  'scrubber.value': 'Photo {number} of {total}',
+
+  'lightbox.close': 'Close',
+
+  'slideshow.play': 'Play slideshow',
+  'slideshow.pause': 'Pause slideshow',
+  'slideshow.settings': 'Slideshow settings',
+  'slideshow.interval': 'Seconds per photo',
+  'slideshow.continue': 'Continue to the next exhibit',
+
+  'palette.button': 'Photo palette',
+  'palette.hint': 'Click a value to copy it. The selected swatch colors the background.',
+  'palette.swatches': 'Background swatch',
+  'palette.useAsBackground': 'Use {swatch} as background',
+  'palette.dominant': 'Dominant',
+  'palette.vibrant': 'Vibrant',
+  'palette.lightVibrant': 'Light vibrant',
+  'palette.darkVibrant': 'Dark vibrant',
+  'palette.muted': 'Muted',
+  'palette.lightMuted': 'Light muted',
+  'palette.darkMuted': 'Dark muted',
+
+  'offline.indicator': 'Offline · showing saved content',
+
+  'footer.updated': 'Updated {time}',
+  'footer.fixtures': 'Served from local fixtures',
+  'footer.servedVia': 'Served via {route} · {ms} ms',
+  'footer.refresh': 'Refresh',
+  'footer.refreshing': 'Refreshing…',
+
+  'errors.network': 'You appear to be offline, or the gallery can’t be reached.',
+  'errors.timeout': 'The gallery is taking too long to respond.',
+  'errors.http': 'The gallery service returned an error.',
+  'errors.httpServer': 'The gallery service is having trouble (error {status}).',
+  'errors.httpClient': 'The gallery service refused the request (error {status}).',
+  'errors.invalidResponse': 'The gallery sent data we couldn’t read.',
+  'errors.allProxiesFailed': 'None of the routes to the gallery are working right now.',
+  'errors.refreshFailed': 'Couldn’t refresh. {reason}',
+  'errors.retry': 'Retry',
+  'errors.retrying': 'Retrying…',
+
+  'toast.photoRemoved': 'This photo is no longer in this exhibit',
+  'toast.linkCopied': 'Link copied to clipboard',
+  'toast.shareFailed': 'Unable to share this photo',
+  'toast.offlineUnavailable': 'Saving for offline is not available here',
+  'toast.offlineRemoved': 'Removed from offline photos',
+  'toast.offlineSaved': { one: 'Saved {count} photo for offline', other: 'Saved {count} photos for offline' },
+  'toast.offlineFailed': 'Unable to save this exhibit',
+  'toast.colorCopied': 'Copied {hex}',
+  'toast.colorCopyFailed': 'Unable to copy the color',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, Message>;
@@ -0,0 +1,102 @@
+import { setCarriedParam } from '../services/router';
+import { readStorage, writeStorage } from '../services/storage';
+import { en, Message, MessageKey, Messages } from './en';
+import { zhCN } from './zh-CN';
+
+/**
+ * UI localization. The active locale comes from `?lang=` (remembered in
+ * localStorage), then a remembered choice, then the browser's languages.
+ * t() reads the active locale directly; App re-renders on changes, which
+ * refreshes every component below it.
+ */
+
+export type { MessageKey } from './en';
+
+export type Locale = 'en' | 'zh-CN';
+
+export type MessageParams = Record<string, string | number>;
+
+type LocaleListener = (locale: Locale) => void;
+
+export const LOCALES: Locale[] = ['en', 'zh-CN'];
+
+/** Each locale's name in its own language, for the switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  'zh-CN': '简体中文',
+};
+
+const LOCALE_PARAM = 'lang';
+const LOCALE_STORAGE_KEY = 'locale';
+
+const CATALOGUES: Record<Locale, Messages> = {
+  en,
+  'zh-CN': zhCN,
+};
+
+// Maps any tag we can serve (`zh`, `zh-Hans-CN`, `en-GB`, ...) onto a locale
+const matchLocale = (tag: string | null | undefined): Locale | null => {
+  const language = tag?.toLowerCase().split('-')[0];
+  if (language === 'zh') return 'zh-CN';
+  if (language === 'en') return 'en';
+  return null;
+};
+
+const readStoredLocale = (): Locale | null => matchLocale(readStorage(LOCALE_STORAGE_KEY));
+
+const resolveLocale = (): Locale => {
+  const fromUrl = matchLocale(new URLSearchParams(window.location.search).get(LOCALE_PARAM));
+  if (fromUrl) {
+    writeStorage(LOCALE_STORAGE_KEY, fromUrl);
+    return fromUrl;
+  }
+
+  const stored = readStoredLocale();
+  if (stored) return stored;
+
+  for (const tag of navigator.languages || [navigator.language]) {
+    const match = matchLocale(tag);
+    if (match) return match;
+  }
+  return 'en';
+};
+
+let currentLocale: Locale = resolveLocale();
+const listeners = new Set<LocaleListener>();
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+export const getLocale = () => currentLocale;
+
+/** Switches the UI language, remembering it in the URL and localStorage. */
+export const setLocale = (locale: Locale) => {
+  writeStorage(LOCALE_STORAGE_KEY, locale);
+  setCarriedParam(LOCALE_PARAM, locale);
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  listeners.forEach(listener => listener(locale));
+};
+
+/** Registers a listener for language changes. Returns an unsubscribe function. */
+export const subscribeToLocale = (listener: LocaleListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const selectPlural = (message: Exclude<Message, string>, count: unknown) => {
+  if (typeof count !== 'number' || !message.one) return message.other;
+  let rules = pluralRules.get(currentLocale);
+  if (!rules) {
+    rules = new Intl.PluralRules(currentLocale);
+    pluralRules.set(currentLocale, rules);
+  }
+  return rules.select(count) === 'one' ? message.one : message.other;
+};
+
+/** The message for `key` in the active locale, with `{name}` placeholders filled from `params`. */
+export const t = (key: MessageKey, params: MessageParams = {}): string => {
+  const message = CATALOGUES[currentLocale][key] ?? en[key];
+  const template = typeof message === 'string' ? message : selectPlural(message, params.count);
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
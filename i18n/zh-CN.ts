@@ -0,0 +1,119 @@
+import { Messages } from './en';
+
+export const zhCN: Messages = {
+  'app.title': '宝丽来 App 精选',
+  'app.documentTitle.exhibit': '{exhibit} | {app}',
+  'app.documentTitle.photo': '{photo} - {exhibit} | {app}',
+  'app.language': '语言',
+
+  'tabs.weekly': '每周 8 张',
+  'tabs.creative': '创意征集',
+  'tabs.favorites': '收藏',
+  'tabs.weekly.description': '浏览宝丽来团队最新策划的影展。',
+  'tabs.creative.description': '浏览近期创意征集的投稿作品。',
+  'tabs.favorites.description': '你收藏的照片与合集。',
+
+  'exhibit.weeklyFallback': '每周 8 张影展',
+  'exhibit.untitled': '无标题',
+  'exhibit.fallback': '影展',
+
+  'search.placeholder': '搜索照片和影展',
+  'search.noResults': '没有与“{query}”匹配的照片或影展。',
+
+  'colorSearch.label': '按颜色搜索',
+  'colorSearch.clear': '清除颜色搜索',
+  'colorSearch.noResults': '没有接近 {color} 的照片。',
+  'colorSearch.fallback': '颜色搜索',
+  'colorSearch.title': '颜色 {hex}',
+  'colorSearch.subtitle': { other: '颜色搜索 · {count} 张照片' },
+
+  'favorites.empty': '点按任意照片上的心形图标即可收藏到这里。',
+  'favorites.all': '全部收藏',
+  'favorites.subtitle': { other: '收藏 · {count} 张照片' },
+  'favorites.add': '加入收藏',
+  'favorites.remove': '取消收藏',
+  'favorites.collections': '合集',
+  'favorites.noCollections': '还没有合集。',
+  'favorites.newCollection': '新建合集',
+  'favorites.createCollection': '添加',
+  'favorites.deleteCollection': '删除合集',
+
+  'creativeCall.comingSoon': '即将开始',
+  'creativeCall.opens': '{date} 开始',
+  'creativeCall.countdown': '{hours} 时 {minutes} 分 {seconds} 秒',
+  'creativeCall.countdownDays': '{days} 天 {hours} 时 {minutes} 分 {seconds} 秒',
+  'creativeCall.viewSubmissions': { other: '查看 {count} 件投稿' },
+  'creativeCall.status.upcoming': '即将开始',
+  'creativeCall.status.ongoing': '进行中',
+  'creativeCall.status.ended': '已结束',
+
+  'date.range': '{begin} – {end}',
+  'date.from': '{date} 起',
+  'date.until': '截至 {date}',
+
+  'detail.previous': '上一张',
+  'detail.next': '下一张',
+  'detail.goToSlide': '转到第 {number} 张',
+  'detail.showAll': '显示全部照片',
+  'detail.saveOffline': '保存影展以供离线浏览',
+  'detail.removeOffline': '移除离线副本',
+  'detail.share': '分享照片',
+  'detail.photoAlt': '影展照片',
+  'detail.photoNumber': '第 {number} 张',
+
+  'grid.count': { other: '{count} 张照片' },
+  'grid.close': '返回轮播',
+  'grid.loadMore': '加载更多',
+
+  'scrubber.label': '拖动浏览照片',
+  'scrubber.value': '第 {number} 张，共 {total} 张',
+
+  'lightbox.close': '关闭',
+
+  'slideshow.play': '播放幻灯片',
+  'slideshow.pause': '暂停幻灯片',
+  'slideshow.settings': '幻灯片设置',
+  'slideshow.interval': '每张照片的秒数',
+  'slideshow.continue': '继续播放下一个影展',
+
+  'palette.button': '照片调色板',
+  'palette.hint': '点击色值即可复制。选中的色块会用作背景色。',
+  'palette.swatches': '背景色块',
+  'palette.useAsBackground': '将“{swatch}”用作背景',
+  'palette.dominant': '主色',
+  'palette.vibrant': '鲜艳',
+  'palette.lightVibrant': '浅鲜艳',
+  'palette.darkVibrant': '深鲜艳',
+  'palette.muted': '柔和',
+  'palette.lightMuted': '浅柔和',
+  'palette.darkMuted': '深柔和',
+
+  'offline.indicator': '离线 · 显示已保存的内容',
+
+  'footer.updated': '更新于{time}',
+  'footer.fixtures': '来自本地示例数据',
+  'footer.servedVia': '经由 {route} · {ms} 毫秒',
+  'footer.refresh': '刷新',
+  'footer.refreshing': '正在刷新…',
+
+  'errors.network': '你似乎已离线，或无法连接到影展服务。',
+  'errors.timeout': '影展服务响应时间过长。',
+  'errors.http': '影展服务返回了错误。',
+  'errors.httpServer': '影展服务出现问题（错误 {status}）。',
+  'errors.httpClient': '影展服务拒绝了请求（错误 {status}）。',
+  'errors.invalidResponse': '影展服务返回的数据无法读取。',
+  'errors.allProxiesFailed': '目前所有连接影展服务的线路都不可用。',
+  'errors.refreshFailed': '刷新失败。{reason}',
+  'errors.retry': '重试',
+  'errors.retrying': '正在重试…',
+
+  'toast.photoRemoved': '这张照片已不在此影展中',
+  'toast.linkCopied': '链接已复制到剪贴板',
+  'toast.shareFailed': '无法分享这张照片',
+  'toast.offlineUnavailable': '此处无法保存离线内容',
+  'toast.offlineRemoved': '已从离线照片中移除',
+  'toast.offlineSaved': { other: '已保存 {count} 张照片供离线浏览' },
+  'toast.offlineFailed': '无法保存此影展',
+  'toast.colorCopied': '已复制 {hex}',
+  'toast.colorCopyFailed': '无法复制颜色',
+};
@@ -0,0 +1,189 @@
+/**
+ * Service worker: precaches the app shell, keeps the GROQ responses and the
+ * image variants that were viewed, and holds photos saved for offline use.
+ *
+ * Caches
+ *   shell   - index.html and the hashed bundles it references
+ *   data    - GROQ responses (direct or through a CORS proxy), network first
+ *   images  - viewed image variants, cache first, trimmed to MAX_IMAGES
+ *   opaque  - viewed cross-origin variants without CORS; their status is hidden
+ *             (could be a 404) and each costs several MB of quota, so they are
+ *             only an offline fallback and trimmed to MAX_OPAQUE_IMAGES
+ *   offline - photos from "Save for offline", fetched with CORS so each one is
+ *             charged its real size; never trimmed
+ */
+
+const VERSION = 'v1';
+const SHELL_CACHE = `polaroid-shell-${VERSION}`;
+const DATA_CACHE = `polaroid-data-${VERSION}`;
+const IMAGE_CACHE = `polaroid-images-${VERSION}`;
+const OPAQUE_IMAGE_CACHE = `polaroid-opaque-images-${VERSION}`;
+const OFFLINE_CACHE = `polaroid-offline-${VERSION}`;
+const CURRENT_CACHES = [SHELL_CACHE, DATA_CACHE, IMAGE_CACHE, OPAQUE_IMAGE_CACHE, OFFLINE_CACHE];
+
+const MAX_IMAGES = 400;
+const MAX_OPAQUE_IMAGES = 40;
+
+const scope = new URL(self.registration.scope);
+const INDEX_URL = new URL('index.html', scope).toString();
+
+// Same-origin files referenced by index.html (bundles, styles, manifest, icons)
+const findShellAssets = (html) =>
+  [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map(match => new URL(match[1], scope))
+    .filter(url => url.origin === scope.origin)
+    .map(url => url.toString());
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const response = await fetch(INDEX_URL, { cache: 'no-cache' });
+    if (!response.ok) throw new Error(`Shell request failed with ${response.status}`);
+    await cache.put(INDEX_URL, response.clone());
+    await cache.addAll(findShellAssets(await response.text()));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !CURRENT_CACHES.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const isGroqRequest = (url) => {
+  try {
+    return decodeURIComponent(url).includes('/data/query/');
+  } catch {
+    return url.includes('/data/query/');
+  }
+};
+
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  // Keys come back in insertion order, so the oldest go first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+// Navigations: the network when it answers, the cached shell otherwise (every route is index.html)
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put(INDEX_URL, response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await caches.match(INDEX_URL);
+    if (cached) return cached;
+    throw new Error('Offline and no cached shell');
+  }
+};
+
+const handleData = async (request) => {
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Any saved or viewed variant of the same image beats a broken image while offline
+const matchAnyVariant = (request) =>
+  caches.match(request, { ignoreSearch: true, ignoreVary: true });
+
+const storeImage = async (request, response) => {
+  const name = response.type === 'opaque' ? OPAQUE_IMAGE_CACHE : IMAGE_CACHE;
+  const cache = await caches.open(name);
+  await cache.put(request, response);
+  await trimCache(name, name === OPAQUE_IMAGE_CACHE ? MAX_OPAQUE_IMAGES : MAX_IMAGES);
+};
+
+const handleImage = async (event) => {
+  const { request } = event;
+  const cached = await caches.match(request);
+  // Opaque entries may be cached errors, so only readable ones are served before the network
+  if (cached && cached.type !== 'opaque') return cached;
+
+  let response;
+  try {
+    response = await fetch(request);
+  } catch (error) {
+    const fallback = cached || (await matchAnyVariant(request));
+    if (fallback) return fallback;
+    throw error;
+  }
+
+  // Cross-origin <img> requests come back opaque (status 0). Storing is best effort:
+  // a full quota must not cost the page an image the network already returned.
+  if (response.ok || response.type === 'opaque') {
+    event.waitUntil(storeImage(request, response.clone()).catch(error => {
+      console.warn('Unable to cache image', error);
+    }));
+  }
+  return response;
+};
+
+// Hashed bundles and fixtures: cache first, refreshed in the background
+const handleStatic = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => undefined);
+  return cached || (await network) || Response.error();
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (isGroqRequest(request.url)) {
+    event.respondWith(handleData(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(handleImage(event));
+  } else if (url.origin === scope.origin) {
+    event.respondWith(handleStatic(request));
+  }
+});
+
+// "Save for offline": the page posts the image URLs of an exhibit and gets back how many were stored
+self.addEventListener('message', (event) => {
+  const { data } = event;
+  const port = event.ports[0];
+  if (!data || !port) return;
+
+  if (data.type === 'save-images') {
+    event.waitUntil((async () => {
+      const cache = await caches.open(OFFLINE_CACHE);
+      const results = await Promise.allSettled(data.urls.map(async (url) => {
+        // An opaque copy would cost several MB of quota per photo, so skip photos without CORS
+        const response = await fetch(url, { mode: 'cors' });
+        if (!response.ok) throw new Error(`${response.status} for ${url}`);
+        await cache.put(url, response);
+      }));
+      port.postMessage({ saved: results.filter(result => result.status === 'fulfilled').length });
+    })());
+  } else if (data.type === 'remove-images') {
+    event.waitUntil((async () => {
+      const cache = await caches.open(OFFLINE_CACHE);
+      await Promise.all(data.urls.map(url => cache.delete(url)));
+      port.postMessage({ removed: data.urls.length });
+    })());
+  }
+});
@@ -1,65 +1,127 @@
-import { APIResponse, ExhibitGroup, ExhibitItem, SubmissionItem } from '../types';
+import { ExhibitItem, GalleryItem, SanityAsset, SubmissionItem } from '../types';
+import { fetchJsonWithProxies, stripProxyWrapper } from './proxies';
+import { ApiValidationError } from './errors';
+import {
+  validateApiResponse,
+  validateExhibitGroups,
+  validateSubmissionGalleryResult,
+  validateSubmissionItems,
+} from './validation';
 
 const BASE_URL = "https://cdn.polaroid.com.cn/v2021-10-21/data/query/production";
 
-const stripProxyWrapper = (url: string) => {
-  if (!url) return '';
+/** Number of approved Creative Call submissions requested per page. */
+export const SUBMISSIONS_PAGE_SIZE = 8;
+
+export interface SubmissionPage {
+  items: GalleryItem[];
+  /** Total number of approved submissions, across all pages. */
+  total: number;
+}
+
+// Builds a query URL; GROQ params are passed JSON-encoded as `$name=value`.
+const buildQueryUrl = (query: string, params: Record<string, unknown> = {}) => {
+  const paramString = Object.entries(params)
+    .map(([name, value]) => `&${encodeURIComponent(`$${name}`)}=${encodeURIComponent(JSON.stringify(value))}`)
+    .join('');
+  return `${BASE_URL}?query=${encodeURIComponent(query)}${paramString}&perspective=published`;
+};
 
-  const corsProxyPrefix = 'https://corsproxy.io/?';
-  if (url.startsWith(corsProxyPrefix)) {
-    const wrapped = url.slice(corsProxyPrefix.length);
-    try {
-      return decodeURIComponent(wrapped);
-    } catch {
-      return wrapped;
-    }
-  }
+const APPROVED_SUBMISSION_PROJECTION = `{
+        title,
+        submissionEntryIdentifier,
+        moderatedAt,
+        submittedAt,
+        desc,
+        image{asset->{path,url,assetId,metadata{blurHash,palette,dimensions}}}
+      }`;
 
-  const allOriginsPrefix = 'https://api.allorigins.win/raw?url=';
-  if (url.startsWith(allOriginsPrefix)) {
-    const wrapped = url.slice(allOriginsPrefix.length);
-    try {
-      return decodeURIComponent(wrapped);
-    } catch {
-      return wrapped;
-    }
-  }
+// Formats the image API accepts for `fm`; AVIF is only served through `auto=format`
+export type ImageFormat = 'webp' | 'jpg' | 'png';
 
-  return url;
-};
+export interface ImageUrlOptions {
+  format?: ImageFormat;
+  quality?: number;
+  /** Adds `auto=format`, letting the CDN pick AVIF when the browser accepts it; `format` is the fallback. */
+  autoFormat?: boolean;
+}
+
+/** srcset candidates for one <img>; each URL negotiates its format with the CDN. */
+export interface ResponsiveImage {
+  src: string;
+  srcSet: string;
+  sizes: string;
+}
+
+// Candidate widths for srcset; filtered per asset so we never upscale
+const RESPONSIVE_WIDTHS = [320, 480, 640, 800, 1080, 1280, 1600, 2000, 2560, 3200];
 
 // Helper to construct image URLs if needed, though the query usually provides full URLs.
 // We can append parameters for optimization.
-export const getOptimizedImageUrl = (url: string, width = 800) => {
+export const getOptimizedImageUrl = (
+  url: string,
+  width = 800,
+  { format = 'webp', quality = 80, autoFormat = false }: ImageUrlOptions = {}
+) => {
   if (!url) return '';
   const cleanUrl = stripProxyWrapper(url);
   const separator = cleanUrl.includes('?') ? '&' : '?';
-  return `${cleanUrl}${separator}w=${width}&fm=webp&q=80`;
+  return `${cleanUrl}${separator}w=${width}&fm=${format}&q=${quality}${autoFormat ? '&auto=format' : ''}`;
 };
 
-const fetchJsonWithProxies = async <T>(targetUrl: string): Promise<T> => {
-  const strategies = [
-    `https://corsproxy.io/?${encodeURIComponent(targetUrl)}`,
-    `https://api.allorigins.win/raw?url=${encodeURIComponent(targetUrl)}`,
-  ];
+/** Original pixel size, from metadata or the `-WIDTHxHEIGHT.` suffix of the asset URL. */
+export const getAssetDimensions = (asset: SanityAsset): { width: number; height: number } | null => {
+  const { width, height } = asset.metadata?.dimensions || {};
+  if (width && height) return { width, height };
 
-  let lastError: unknown = null;
+  const match = asset.url?.match(/-(\d+)x(\d+)\./);
+  return match ? { width: parseInt(match[1], 10), height: parseInt(match[2], 10) } : null;
+};
 
-  for (const url of strategies) {
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      return (await response.json()) as T;
-    } catch (error) {
-      console.warn(`Fetch attempt failed for proxy: ${url}`, error);
-      lastError = error;
-    }
-  }
+/**
+ * Builds srcset/sizes for an asset. Candidates stop at the original width
+ * (or `maxWidth`), and the original is included so full resolution is reachable.
+ */
+export const getResponsiveImage = (asset: SanityAsset, sizes: string, maxWidth = 2560, quality = 80): ResponsiveImage => {
+  const originalWidth = getAssetDimensions(asset)?.width;
+  const limit = Math.min(maxWidth, originalWidth || maxWidth);
+
+  const widths = RESPONSIVE_WIDTHS.filter(w => w < limit);
+  widths.push(limit);
 
-  console.error('All fetch strategies failed. Last error:', lastError);
-  throw (lastError as Error) || new Error('Unable to connect to gallery service.');
+  const options: ImageUrlOptions = { quality, autoFormat: true };
+
+  return {
+    // Mid-size fallback for browsers without srcset support
+    src: getOptimizedImageUrl(asset.url, Math.min(limit, 1080), options),
+    srcSet: widths.map(w => `${getOptimizedImageUrl(asset.url, w, options)} ${w}w`).join(', '),
+    sizes,
+  };
+};
+
+/**
+ * Maps a Creative Call submission onto the ExhibitItem shape rendered by the app.
+ * Shared by every data source so they all yield identical items.
+ */
+export const mapSubmissionToExhibit = (item: SubmissionItem): ExhibitItem => {
+  const gallery = item.allApprovedSubmissionsGallery || item.submissionGallery;
+  return {
+    identifier: item.identifier,
+    title: item.title,
+    subtitle: item.subtitle,
+    coverImages: item.heroImage ? [item.heroImage] : undefined,
+    gallery: {
+      title: gallery?.title,
+      count: gallery?.count,
+      galleryItems: gallery?.galleryItems,
+    },
+    creativeCall: {
+      beginAt: item.beginAt,
+      endAt: item.endAt,
+      isOngoing: item.isOngoing,
+      overview: item.overview,
+    },
+  };
 };
 
 /**
@@ -84,7 +146,7 @@ export const fetchExhibits = async (): Promise<ExhibitItem[]> => {
         title,
         galleryItems[]{
           title,
-          "desc": desc[0].children[0].text,
+          desc,
           image{
             asset->{
               path,
@@ -98,16 +160,11 @@ export const fetchExhibits = async (): Promise<ExhibitItem[]> => {
     }
   }`;
 
-  const encodedQuery = encodeURIComponent(query);
-  const targetUrl = `${BASE_URL}?query=${encodedQuery}&perspective=published`;
-
-  const data = await fetchJsonWithProxies<APIResponse<ExhibitGroup[]>>(targetUrl);
+  const targetUrl = buildQueryUrl(query);
 
-  if (!data || !data.result) {
-    throw new Error('Invalid API response format');
-  }
+  const data = await fetchJsonWithProxies(targetUrl, body => validateApiResponse(body, validateExhibitGroups));
 
-  return data.result.flatMap((group) => group.items || []);
+  return data.result.flatMap((group) => group.items);
 };
 
 export const fetchCreativeCalls = async (): Promise<ExhibitItem[]> => {
@@ -119,6 +176,7 @@ export const fetchCreativeCalls = async (): Promise<ExhibitItem[]> => {
     endAt,
     "isOngoing": dateTime(beginAt)<dateTime(now())&&dateTime(endAt)>dateTime(now()),
     "heroImage": image{asset->{path,url,assetId,metadata{blurHash,palette,dimensions}}},
+    overview[]{_type,title,subtitle,paragraph,size,images[]{asset->{path,url,assetId,metadata{blurHash,palette,dimensions}}}},
     submissionGallery{
       title,
       "count": count(galleryItems),
@@ -127,37 +185,60 @@ export const fetchCreativeCalls = async (): Promise<ExhibitItem[]> => {
     allApprovedSubmissionsGallery{
       title,
       "count": count(galleryItems),
-      galleryItems[]{
-        title,
-        submissionEntryIdentifier,
-        moderatedAt,
-        submittedAt,
-        desc,
-        image{asset->{path,url,assetId,metadata{blurHash,palette,dimensions}}}
-      } | order(moderatedAt desc)[0...8]
+      galleryItems[]${APPROVED_SUBMISSION_PROJECTION} | order(moderatedAt desc)[0...${SUBMISSIONS_PAGE_SIZE}]
     }
   }`;
 
-  const encodedQuery = encodeURIComponent(query);
-  const targetUrl = `${BASE_URL}?query=${encodedQuery}&perspective=published`;
+  const targetUrl = buildQueryUrl(query);
+
+  const data = await fetchJsonWithProxies(targetUrl, body => validateApiResponse(body, validateSubmissionItems));
+
+  return data.result.map(mapSubmissionToExhibit);
+};
+
+/**
+ * Fetches Creative Calls that are announced but have not started yet,
+ * soonest first. These carry no submissions, only the hero and dates.
+ */
+export const fetchUpcomingCreativeCalls = async (): Promise<ExhibitItem[]> => {
+  const query = `*[_type=='submission'][dateTime(beginAt)>=dateTime(now())] | order(beginAt asc) {
+    "identifier": identifier["current"],
+    title,
+    subtitle,
+    beginAt,
+    endAt,
+    "isOngoing": false,
+    "heroImage": image{asset->{path,url,assetId,metadata{blurHash,palette,dimensions}}}
+  }`;
+
+  const targetUrl = buildQueryUrl(query);
 
-  const data = await fetchJsonWithProxies<APIResponse<SubmissionItem[]>>(targetUrl);
+  const data = await fetchJsonWithProxies(targetUrl, body => validateApiResponse(body, validateSubmissionItems));
 
-  if (!data || !data.result) {
-    throw new Error('Invalid API response format');
+  return data.result.map(mapSubmissionToExhibit);
+};
+
+/**
+ * Fetches one page of a Creative Call's approved submissions, in the same
+ * order as the first page returned by fetchCreativeCalls.
+ */
+export const fetchSubmissionPage = async (identifier: string, offset: number, limit = SUBMISSIONS_PAGE_SIZE): Promise<SubmissionPage> => {
+  const query = `*[_type=='submission' && identifier.current == $identifier][0].allApprovedSubmissionsGallery{
+    title,
+    "count": count(galleryItems),
+    galleryItems[]${APPROVED_SUBMISSION_PROJECTION} | order(moderatedAt desc)[${offset}...${offset + limit}]
+  }`;
+
+  const targetUrl = buildQueryUrl(query, { identifier });
+
+  const data = await fetchJsonWithProxies(targetUrl, body => validateApiResponse(body, validateSubmissionGalleryResult));
+
+  if (!data.result) {
+    throw new ApiValidationError(`Creative Call "${identifier}" was not found`, 'result');
   }
 
-  return (data.result || []).map((item) => {
-    const gallery = item.allApprovedSubmissionsGallery || item.submissionGallery;
-    return {
-      identifier: item.identifier,
-      title: item.title,
-      subtitle: item.subtitle,
-      coverImages: item.heroImage ? [item.heroImage] : undefined,
-      gallery: {
-        title: gallery?.title,
-        galleryItems: gallery?.galleryItems,
-      },
-    } satisfies ExhibitItem;
-  });
-};
\ No newline at end of file
+  return {
+    items: data.result.galleryItems || [],
+    total: data.result.count ?? 0,
+  };
+};
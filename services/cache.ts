@@ -0,0 +1,42 @@
+import { readJsonStorage, writeJsonStorage } from './storage';
+
+/**
+ * Persistent stale-while-revalidate cache backed by localStorage.
+ * Entries are timestamped so callers can render stale data instantly and
+ * decide whether a background refresh is needed.
+ */
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+const CACHE_PREFIX = 'cache:';
+// Bump when the cached data shape changes so old entries are ignored.
+const CACHE_VERSION = 4;
+
+/** Entries younger than this are considered fresh and skip revalidation. */
+export const DEFAULT_CACHE_TTL_MS = 15 * 60 * 1000;
+
+const storageKey = (key: string) => `${CACHE_PREFIX}v${CACHE_VERSION}:${key}`;
+
+export const readCache = <T>(key: string): CacheEntry<T> | null => {
+  const entry = readJsonStorage(storageKey(key)) as CacheEntry<T> | null;
+  return typeof entry?.storedAt === 'number' ? entry : null;
+};
+
+export const writeCache = <T>(key: string, value: T): CacheEntry<T> => {
+  const entry: CacheEntry<T> = { value, storedAt: Date.now() };
+  // Quota exceeded or storage disabled: the data is still returned, just not persisted.
+  writeJsonStorage(storageKey(key), entry);
+  return entry;
+};
+
+export const isFresh = (entry: CacheEntry<unknown> | null, ttlMs = DEFAULT_CACHE_TTL_MS) =>
+  !!entry && Date.now() - entry.storedAt < ttlMs;
+
+/** Fetches fresh data and stores it under `key`. */
+export const revalidate = async <T>(key: string, fetcher: () => Promise<T>): Promise<CacheEntry<T>> => {
+  const value = await fetcher();
+  return writeCache(key, value);
+};
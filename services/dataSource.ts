@@ -0,0 +1,152 @@
+import { ExhibitItem, SubmissionItem } from '../types';
+import {
+  fetchCreativeCalls,
+  fetchExhibits,
+  fetchSubmissionPage,
+  fetchUpcomingCreativeCalls,
+  mapSubmissionToExhibit,
+  SUBMISSIONS_PAGE_SIZE,
+  SubmissionPage,
+} from './api';
+import { ApiValidationError, HttpError, NetworkError } from './errors';
+import { readStorage, writeStorage } from './storage';
+import { validateExhibitItems, validateSubmissionItems } from './validation';
+
+export type DataSourceKind = 'cdn' | 'fixtures';
+
+/**
+ * Backend consumed by App. Every implementation resolves to the same
+ * ExhibitItem[] shapes so the UI never needs to know where data came from.
+ */
+export interface GalleryDataSource {
+  kind: DataSourceKind;
+  fetchExhibits: () => Promise<ExhibitItem[]>;
+  fetchCreativeCalls: () => Promise<ExhibitItem[]>;
+  /** Announced Creative Calls that have not opened yet, soonest first. */
+  fetchUpcomingCreativeCalls: () => Promise<ExhibitItem[]>;
+  /** Loads further approved submissions for a Creative Call returned by fetchCreativeCalls. */
+  fetchSubmissionPage: (identifier: string, offset: number, limit?: number) => Promise<SubmissionPage>;
+}
+
+const SOURCE_PARAM = 'source';
+const SOURCE_STORAGE_KEY = 'source';
+
+const isDataSourceKind = (value: unknown): value is DataSourceKind =>
+  value === 'cdn' || value === 'fixtures';
+
+export const cdnDataSource: GalleryDataSource = {
+  kind: 'cdn',
+  fetchExhibits,
+  fetchCreativeCalls,
+  fetchUpcomingCreativeCalls,
+  fetchSubmissionPage,
+};
+
+// Fixtures go through the same validators as CDN responses
+const fetchFixture = async <T>(name: string, validate: (value: unknown, path: string) => T): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${import.meta.env.BASE_URL}fixtures/${name}.json`);
+  } catch (error) {
+    throw new NetworkError(`Fixture "${name}" could not be loaded: ${error}`);
+  }
+  if (!response.ok) {
+    throw new HttpError(response.status);
+  }
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new ApiValidationError(`Fixture "${name}" is not JSON`);
+  }
+  return validate(body, name);
+};
+
+// The moment creative-calls.json describes: its calls are moved by however far
+// today is from here, so one stays upcoming and one ongoing whenever it's loaded
+const FIXTURE_NOW = Date.parse('2026-10-01T00:00:00Z');
+
+const shiftDate = (value: string | undefined, offset: number) =>
+  value && !Number.isNaN(Date.parse(value)) ? new Date(Date.parse(value) + offset).toISOString() : value;
+
+const fetchSubmissionFixture = async () => {
+  const submissions = await fetchFixture('creative-calls', validateSubmissionItems);
+  const offset = Date.now() - FIXTURE_NOW;
+  return submissions.map(submission => ({
+    ...submission,
+    beginAt: shiftDate(submission.beginAt, offset),
+    endAt: shiftDate(submission.endAt, offset),
+  }));
+};
+
+const hasNotStarted = (submission: SubmissionItem) =>
+  !!submission.beginAt && Date.parse(submission.beginAt) >= Date.now();
+
+/**
+ * Serves the JSON files under public/fixtures, so the app can be developed
+ * and demoed without reaching the Polaroid CDN or any CORS proxy.
+ */
+export const fixtureDataSource: GalleryDataSource = {
+  kind: 'fixtures',
+  fetchExhibits: () => fetchFixture('exhibits', validateExhibitItems),
+  fetchCreativeCalls: async () => {
+    const submissions = await fetchSubmissionFixture();
+    // Mirror the CDN query, which only returns the first page of approved submissions
+    return submissions.filter(s => !hasNotStarted(s)).map(submission => {
+      const approved = submission.allApprovedSubmissionsGallery;
+      return mapSubmissionToExhibit(approved ? {
+        ...submission,
+        allApprovedSubmissionsGallery: {
+          ...approved,
+          galleryItems: approved.galleryItems?.slice(0, SUBMISSIONS_PAGE_SIZE),
+        },
+      } : submission);
+    });
+  },
+  fetchUpcomingCreativeCalls: async () => {
+    const submissions = await fetchSubmissionFixture();
+    return submissions
+      .filter(hasNotStarted)
+      .sort((a, b) => Date.parse(a.beginAt || '') - Date.parse(b.beginAt || ''))
+      .map(mapSubmissionToExhibit);
+  },
+  fetchSubmissionPage: async (identifier, offset, limit = SUBMISSIONS_PAGE_SIZE) => {
+    const submissions = await fetchSubmissionFixture();
+    const approved = submissions.find(s => s.identifier === identifier)?.allApprovedSubmissionsGallery;
+    const items = approved?.galleryItems || [];
+    return {
+      items: items.slice(offset, offset + limit),
+      total: approved?.count ?? items.length,
+    };
+  },
+};
+
+const readStoredKind = (): DataSourceKind | null => {
+  const stored = readStorage(SOURCE_STORAGE_KEY);
+  return isDataSourceKind(stored) ? stored : null;
+};
+
+/**
+ * Picks the backend for this session.
+ * Order: `?source=` query param (remembered in localStorage), then a previously
+ * remembered choice, then the VITE_GALLERY_SOURCE build setting, then the CDN.
+ */
+export const resolveDataSourceKind = (): DataSourceKind => {
+  const fromUrl = new URLSearchParams(window.location.search).get(SOURCE_PARAM);
+  if (isDataSourceKind(fromUrl)) {
+    // The query param still works without storage (private mode)
+    writeStorage(SOURCE_STORAGE_KEY, fromUrl, { quiet: true });
+    return fromUrl;
+  }
+
+  const stored = readStoredKind();
+  if (stored) return stored;
+
+  const fromBuild = import.meta.env.VITE_GALLERY_SOURCE;
+  if (isDataSourceKind(fromBuild)) return fromBuild;
+
+  return 'cdn';
+};
+
+export const getDataSource = (kind: DataSourceKind = resolveDataSourceKind()): GalleryDataSource =>
+  kind === 'fixtures' ? fixtureDataSource : cdnDataSource;
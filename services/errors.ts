@@ -0,0 +1,100 @@
+import { MessageKey, t } from '../i18n';
+
+/**
+ * Errors raised while fetching gallery data. Each carries a `kind` so the UI
+ * can explain what went wrong without parsing messages.
+ */
+
+export type GalleryErrorKind = 'network' | 'timeout' | 'http' | 'invalid-response' | 'all-proxies-failed';
+
+export abstract class GalleryFetchError extends Error {
+  abstract readonly kind: GalleryErrorKind;
+}
+
+/** The request never got an answer (offline, DNS, CORS rejection). */
+export class NetworkError extends GalleryFetchError {
+  readonly kind = 'network';
+
+  constructor(message = 'Network request failed') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/** No answer within the per-attempt timeout. */
+export class TimeoutError extends GalleryFetchError {
+  readonly kind = 'timeout';
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** The server (or proxy) answered with a non-2xx status. */
+export class HttpError extends GalleryFetchError {
+  readonly kind = 'http';
+  readonly status: number;
+
+  constructor(status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/** A response (or fixture) that doesn't have the expected shape. */
+export class ApiValidationError extends GalleryFetchError {
+  readonly kind = 'invalid-response';
+  /** Where the problem was found, e.g. `result[2].items`. */
+  readonly path: string;
+
+  constructor(message: string, path = '') {
+    super(path ? `${message} (at ${path})` : message);
+    this.name = 'ApiValidationError';
+    this.path = path;
+  }
+}
+
+export interface ProxyAttempt {
+  /** Label of the proxy strategy, e.g. 'corsproxy.io'. */
+  strategy: string;
+  error: GalleryFetchError;
+}
+
+/** Every proxy route failed, for different reasons. */
+export class AllProxiesFailedError extends GalleryFetchError {
+  readonly kind = 'all-proxies-failed';
+  readonly attempts: ProxyAttempt[];
+
+  constructor(attempts: ProxyAttempt[]) {
+    super(`All ${attempts.length} proxy attempts failed`);
+    this.name = 'AllProxiesFailedError';
+    this.attempts = attempts;
+  }
+}
+
+/** Wraps anything thrown by fetch() in the matching typed error. */
+export const toGalleryFetchError = (error: unknown): GalleryFetchError => {
+  if (error instanceof GalleryFetchError) return error;
+  if (error instanceof SyntaxError) return new ApiValidationError('Response is not JSON');
+  return new NetworkError(error instanceof Error ? error.message : undefined);
+};
+
+const ERROR_MESSAGES: Record<GalleryErrorKind, MessageKey> = {
+  network: 'errors.network',
+  timeout: 'errors.timeout',
+  http: 'errors.http',
+  'invalid-response': 'errors.invalidResponse',
+  'all-proxies-failed': 'errors.allProxiesFailed',
+};
+
+/** User-facing explanation of a failed load, in the active language. */
+export const describeFetchError = (error: unknown): string => {
+  if (error instanceof HttpError) {
+    return t(error.status >= 500 ? 'errors.httpServer' : 'errors.httpClient', { status: error.status });
+  }
+  return t(ERROR_MESSAGES[toGalleryFetchError(error).kind]);
+};
@@ -0,0 +1,182 @@
+import { ExhibitItem, GalleryItem } from '../types';
+import { t } from '../i18n';
+import { readJsonStorage, writeJsonStorage } from './storage';
+import { isRecord, validateGalleryItem } from './validation';
+
+/**
+ * Locally persisted favorites, keyed by asset id. Each entry keeps a snapshot
+ * of the GalleryItem so favorites still render if the exhibit changes upstream.
+ */
+
+export interface FavoriteEntry {
+  assetId: string;
+  item: GalleryItem;
+  exhibitIdentifier: string;
+  exhibitTitle: string;
+  addedAt: number;
+}
+
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  assetIds: string[];
+  createdAt: number;
+}
+
+export interface FavoritesState {
+  entries: Record<string, FavoriteEntry>;
+  collections: FavoriteCollection[];
+}
+
+const FAVORITES_STORAGE_KEY = 'favorites';
+
+/** Identifier prefix of the virtual exhibits built from favorites. */
+export const FAVORITES_EXHIBIT_ID = 'favorites';
+
+export const EMPTY_FAVORITES: FavoritesState = { entries: {}, collections: [] };
+
+const validateEntry = (value: unknown, assetId: string): FavoriteEntry | undefined => {
+  if (
+    !isRecord(value) ||
+    value.assetId !== assetId ||
+    typeof value.exhibitIdentifier !== 'string' ||
+    typeof value.exhibitTitle !== 'string'
+  ) {
+    return undefined;
+  }
+  return {
+    assetId,
+    item: validateGalleryItem(value.item, `favorites.entries.${assetId}.item`),
+    exhibitIdentifier: value.exhibitIdentifier,
+    exhibitTitle: value.exhibitTitle,
+    addedAt: typeof value.addedAt === 'number' ? value.addedAt : 0,
+  };
+};
+
+const validateCollection = (value: unknown): FavoriteCollection | undefined => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !Array.isArray(value.assetIds)) {
+    return undefined;
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    assetIds: value.assetIds.filter((id): id is string => typeof id === 'string'),
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : 0,
+  };
+};
+
+// Stored state may be corrupted or from an older version: anything that
+// doesn't have the expected shape is dropped rather than trusted
+export const loadFavorites = (): FavoritesState => {
+  const parsed = readJsonStorage(FAVORITES_STORAGE_KEY);
+  if (!isRecord(parsed) || !isRecord(parsed.entries)) return EMPTY_FAVORITES;
+  const storedCollections = parsed.collections ?? [];
+  if (!Array.isArray(storedCollections)) return EMPTY_FAVORITES;
+
+  const entries: Record<string, FavoriteEntry> = {};
+  for (const [assetId, value] of Object.entries(parsed.entries)) {
+    const entry = validateEntry(value, assetId);
+    if (entry) entries[assetId] = entry;
+  }
+  const collections = storedCollections.flatMap(collection => validateCollection(collection) || []);
+  return { entries, collections };
+};
+
+export const saveFavorites = (state: FavoritesState) => {
+  writeJsonStorage(FAVORITES_STORAGE_KEY, state);
+};
+
+export const isFavorite = (state: FavoritesState, assetId: string | undefined) =>
+  !!assetId && !!state.entries[assetId];
+
+/** Adds or removes an item. Removing also drops it from every collection. */
+export const toggleFavorite = (state: FavoritesState, item: GalleryItem, exhibit: ExhibitItem): FavoritesState => {
+  const assetId = item.image?.asset?.assetId;
+  if (!assetId) return state;
+
+  if (state.entries[assetId]) {
+    const entries = { ...state.entries };
+    delete entries[assetId];
+    return {
+      entries,
+      collections: state.collections.map(c => ({ ...c, assetIds: c.assetIds.filter(id => id !== assetId) })),
+    };
+  }
+
+  return {
+    ...state,
+    entries: {
+      ...state.entries,
+      [assetId]: {
+        assetId,
+        item,
+        exhibitIdentifier: exhibit.identifier,
+        exhibitTitle: exhibit.title,
+        addedAt: Date.now(),
+      },
+    },
+  };
+};
+
+export const createCollection = (state: FavoritesState, name: string): FavoritesState => ({
+  ...state,
+  collections: [
+    ...state.collections,
+    { id: Date.now().toString(36), name: name.trim(), assetIds: [], createdAt: Date.now() },
+  ],
+});
+
+export const deleteCollection = (state: FavoritesState, collectionId: string): FavoritesState => ({
+  ...state,
+  collections: state.collections.filter(c => c.id !== collectionId),
+});
+
+/** Adds a favorited asset to a collection, or removes it if already there. */
+export const toggleInCollection = (state: FavoritesState, collectionId: string, assetId: string): FavoritesState => ({
+  ...state,
+  collections: state.collections.map(c => {
+    if (c.id !== collectionId) return c;
+    const assetIds = c.assetIds.includes(assetId)
+      ? c.assetIds.filter(id => id !== assetId)
+      : [...c.assetIds, assetId];
+    return { ...c, assetIds };
+  }),
+});
+
+const toExhibit = (identifier: string, title: string, entries: FavoriteEntry[]): ExhibitItem => {
+  const items = entries.map(e => e.item);
+  const cover = items.find(i => i.image)?.image;
+  return {
+    identifier,
+    title,
+    subtitle: t('favorites.subtitle', { count: items.length }),
+    coverImages: cover ? [cover] : undefined,
+    gallery: { title, galleryItems: items },
+  };
+};
+
+/**
+ * Virtual exhibits for the Favorites tab: all favorites (newest first)
+ * followed by one exhibit per named collection.
+ */
+export const favoritesToExhibits = (state: FavoritesState): ExhibitItem[] => {
+  const all = Object.values(state.entries).sort((a, b) => b.addedAt - a.addedAt);
+  if (all.length === 0 && state.collections.length === 0) return [];
+
+  return [
+    toExhibit(FAVORITES_EXHIBIT_ID, t('favorites.all'), all),
+    ...state.collections.map(c =>
+      toExhibit(
+        `${FAVORITES_EXHIBIT_ID}:${c.id}`,
+        c.name,
+        c.assetIds.map(id => state.entries[id]).filter((e): e is FavoriteEntry => !!e),
+      )
+    ),
+  ];
+};
+
+/** Collection id encoded in a virtual exhibit identifier, if any. */
+export const getCollectionId = (exhibitIdentifier: string) =>
+  exhibitIdentifier.startsWith(`${FAVORITES_EXHIBIT_ID}:`)
+    ? exhibitIdentifier.slice(FAVORITES_EXHIBIT_ID.length + 1)
+    : null;
@@ -0,0 +1,73 @@
+import { ExhibitItem } from '../types';
+import { getOptimizedImageUrl } from './api';
+import { readJsonStorage, writeJsonStorage } from './storage';
+
+/**
+ * Service worker registration and "Save for offline". The worker (public/sw.js)
+ * answers image requests with any stored variant of the same photo, so one
+ * variant per photo is enough to fill every srcset while offline.
+ */
+
+const OFFLINE_EXHIBITS_STORAGE_KEY = 'offline-exhibits';
+
+// Width stored per photo; large enough for the carousel on most screens
+const OFFLINE_IMAGE_WIDTH = 1600;
+
+type WorkerMessage =
+  | { type: 'save-images'; urls: string[] }
+  | { type: 'remove-images'; urls: string[] };
+
+export const registerServiceWorker = () => {
+  // Dev builds change on every save; only production gets a worker
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(error => {
+      console.warn('Service worker registration failed', error);
+    });
+  });
+};
+
+/** Whether a service worker currently controls the page. */
+export const canSaveOffline = () => !!navigator.serviceWorker?.controller;
+
+export const loadOfflineExhibitIds = (): string[] => {
+  const parsed = readJsonStorage(OFFLINE_EXHIBITS_STORAGE_KEY);
+  return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+};
+
+const storeOfflineExhibitIds = (ids: string[]) => {
+  writeJsonStorage(OFFLINE_EXHIBITS_STORAGE_KEY, ids);
+};
+
+const getExhibitImageUrls = (exhibit: ExhibitItem) => {
+  const assets = [
+    ...(exhibit.coverImages || []).map(image => image.asset),
+    ...(exhibit.gallery?.galleryItems || []).map(item => item.image?.asset),
+  ];
+  const urls = assets.flatMap(asset => (asset?.url ? [getOptimizedImageUrl(asset.url, OFFLINE_IMAGE_WIDTH)] : []));
+  return [...new Set(urls)];
+};
+
+const postToWorker = <T>(message: WorkerMessage): Promise<T> => {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) return Promise.reject(new Error('No active service worker'));
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => resolve(event.data as T);
+    worker.postMessage(message, [channel.port2]);
+  });
+};
+
+/** Stores every photo of `exhibit` for offline use. Resolves with the number saved. */
+export const saveExhibitForOffline = async (exhibit: ExhibitItem): Promise<number> => {
+  const { saved } = await postToWorker<{ saved: number }>({ type: 'save-images', urls: getExhibitImageUrls(exhibit) });
+  if (saved > 0) {
+    storeOfflineExhibitIds([...loadOfflineExhibitIds().filter(id => id !== exhibit.identifier), exhibit.identifier]);
+  }
+  return saved;
+};
+
+export const removeExhibitFromOffline = async (exhibit: ExhibitItem) => {
+  await postToWorker({ type: 'remove-images', urls: getExhibitImageUrls(exhibit) });
+  storeOfflineExhibitIds(loadOfflineExhibitIds().filter(id => id !== exhibit.identifier));
+};
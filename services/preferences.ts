@@ -0,0 +1,16 @@
+import { isPaletteSwatchKey, PaletteSwatchKey } from '../utils/palette';
+import { readStorage, writeStorage } from './storage';
+
+/** Small display preferences persisted in localStorage. */
+
+const BACKGROUND_SWATCH_STORAGE_KEY = 'background-swatch';
+
+/** Which palette swatch drives the adaptive background; `dominant` by default. */
+export const loadBackgroundSwatch = (): PaletteSwatchKey => {
+  const stored = readStorage(BACKGROUND_SWATCH_STORAGE_KEY);
+  return isPaletteSwatchKey(stored) ? stored : 'dominant';
+};
+
+export const saveBackgroundSwatch = (key: PaletteSwatchKey) => {
+  writeStorage(BACKGROUND_SWATCH_STORAGE_KEY, key);
+};
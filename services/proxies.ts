@@ -0,0 +1,242 @@
+import {
+  AllProxiesFailedError,
+  ApiValidationError,
+  HttpError,
+  ProxyAttempt,
+  TimeoutError,
+  toGalleryFetchError,
+} from './errors';
+import { readJsonStorage, writeJsonStorage } from './storage';
+
+/**
+ * Proxy chain used to reach the CORS-restricted Polaroid CDN.
+ * Strategies are tried in order (last known good first), each attempt is
+ * bounded by a timeout, and failed rounds are retried with exponential backoff.
+ */
+
+export interface ProxyStrategy {
+  /** Stable key used for the health record, e.g. 'direct' or 'corsproxy'. */
+  id: string;
+  /** Human readable name surfaced in the UI. */
+  label: string;
+  /** Prepended to the target URL. Empty string means a direct request. */
+  prefix: string;
+  /** Whether the target URL must be URI-encoded after the prefix (default true). */
+  encode?: boolean;
+}
+
+export interface ProxyConfig {
+  strategies: ProxyStrategy[];
+  /** Per-attempt timeout in milliseconds. */
+  timeoutMs: number;
+  /** Extra rounds through the whole chain after the first one fails. */
+  retries: number;
+  /** Delay before the first retry round; doubled for each subsequent round. */
+  backoffMs: number;
+}
+
+/** The route that served the most recent successful request. */
+export interface ProxyRoute {
+  strategyId: string;
+  label: string;
+  elapsedMs: number;
+  at: number;
+}
+
+interface StrategyHealth {
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  failures: number;
+}
+
+type HealthRecord = Record<string, StrategyHealth>;
+type RouteListener = (route: ProxyRoute) => void;
+
+export const DIRECT_STRATEGY: ProxyStrategy = { id: 'direct', label: 'Direct', prefix: '' };
+
+export const DEFAULT_PROXY_STRATEGIES: ProxyStrategy[] = [
+  { id: 'corsproxy', label: 'corsproxy.io', prefix: 'https://corsproxy.io/?' },
+  { id: 'allorigins', label: 'allorigins.win', prefix: 'https://api.allorigins.win/raw?url=' },
+];
+
+const HEALTH_STORAGE_KEY = 'proxy-health';
+
+/**
+ * Parses VITE_GALLERY_PROXIES: a comma separated list where each entry is
+ * either `direct` or a proxy prefix such as `https://proxy.example.com/?url=`.
+ */
+const parseStrategiesFromEnv = (raw: string | undefined): ProxyStrategy[] | null => {
+  if (!raw) return null;
+  const strategies = raw
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry): ProxyStrategy => {
+      if (entry === 'direct') return DIRECT_STRATEGY;
+      let label = entry;
+      try {
+        label = new URL(entry).host;
+      } catch {
+        // Keep the raw prefix as the label
+      }
+      return { id: entry, label, prefix: entry };
+    });
+  return strategies.length > 0 ? strategies : null;
+};
+
+let config: ProxyConfig = {
+  strategies: parseStrategiesFromEnv(import.meta.env.VITE_GALLERY_PROXIES) || DEFAULT_PROXY_STRATEGIES,
+  timeoutMs: 10000,
+  retries: 1,
+  backoffMs: 800,
+};
+
+let lastRoute: ProxyRoute | null = null;
+const routeListeners = new Set<RouteListener>();
+
+export const configureProxies = (overrides: Partial<ProxyConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+export const getProxyConfig = (): ProxyConfig => config;
+
+export const getLastProxyRoute = () => lastRoute;
+
+/** Registers a listener for successful routes. Returns an unsubscribe function. */
+export const subscribeToProxyRoute = (listener: RouteListener) => {
+  routeListeners.add(listener);
+  return () => {
+    routeListeners.delete(listener);
+  };
+};
+
+const readHealth = (): HealthRecord => (readJsonStorage(HEALTH_STORAGE_KEY) as HealthRecord | null) || {};
+
+const recordOutcome = (strategyId: string, ok: boolean) => {
+  const health = readHealth();
+  const entry = health[strategyId] || { failures: 0 };
+  if (ok) {
+    entry.lastSuccessAt = Date.now();
+    entry.failures = 0;
+  } else {
+    entry.lastFailureAt = Date.now();
+    entry.failures += 1;
+  }
+  health[strategyId] = entry;
+  // Health is an optimisation only, written on every attempt: fail silently
+  writeJsonStorage(HEALTH_STORAGE_KEY, health, { quiet: true });
+};
+
+/** Configured strategies, with the most recently successful one moved to the front. */
+export const getOrderedStrategies = (): ProxyStrategy[] => {
+  const health = readHealth();
+  let best: ProxyStrategy | null = null;
+  let bestAt = 0;
+  for (const strategy of config.strategies) {
+    const at = health[strategy.id]?.lastSuccessAt || 0;
+    if (at > bestAt) {
+      best = strategy;
+      bestAt = at;
+    }
+  }
+  if (!best) return config.strategies;
+  return [best, ...config.strategies.filter(s => s !== best)];
+};
+
+export const buildProxiedUrl = (strategy: ProxyStrategy, targetUrl: string) => {
+  if (!strategy.prefix) return targetUrl;
+  const encoded = strategy.encode === false ? targetUrl : encodeURIComponent(targetUrl);
+  return `${strategy.prefix}${encoded}`;
+};
+
+/** Removes any configured proxy prefix so asset URLs point at the CDN again. */
+export const stripProxyWrapper = (url: string) => {
+  if (!url) return '';
+
+  const strategies = [...config.strategies, ...DEFAULT_PROXY_STRATEGIES];
+  for (const strategy of strategies) {
+    if (!strategy.prefix || !url.startsWith(strategy.prefix)) continue;
+    const wrapped = url.slice(strategy.prefix.length);
+    try {
+      return decodeURIComponent(wrapped);
+    } catch {
+      return wrapped;
+    }
+  }
+
+  return url;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The timer stays armed until the body is parsed, so a proxy that sends
+// headers and then stalls still times out and the next route is tried
+const fetchJsonWithTimeout = async (url: string, timeoutMs: number, label: string): Promise<unknown> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new HttpError(response.status);
+    }
+    try {
+      return await response.json();
+    } catch (error) {
+      if (controller.signal.aborted) throw error;
+      throw new ApiValidationError(`Response from ${label} is not JSON`);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) throw new TimeoutError(timeoutMs);
+    throw toGalleryFetchError(error);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Fetches JSON through the proxy chain. `parse` validates the body; a route
+ * whose answer fails it (an HTML error page, a proxy's own error JSON) counts
+ * as failed and the next one is tried. Rejects with a GalleryFetchError.
+ */
+export const fetchJsonWithProxies = async <T>(
+  targetUrl: string,
+  parse: (data: unknown) => T = data => data as T,
+): Promise<T> => {
+  const { retries, backoffMs, timeoutMs } = config;
+  const attempts: ProxyAttempt[] = [];
+
+  for (let round = 0; round <= retries; round++) {
+    if (round > 0) {
+      await wait(backoffMs * 2 ** (round - 1));
+    }
+
+    for (const strategy of getOrderedStrategies()) {
+      const url = buildProxiedUrl(strategy, targetUrl);
+      const startedAt = performance.now();
+      try {
+        const body = await fetchJsonWithTimeout(url, timeoutMs, strategy.label);
+        const data = parse(body);
+
+        recordOutcome(strategy.id, true);
+        lastRoute = {
+          strategyId: strategy.id,
+          label: strategy.label,
+          elapsedMs: Math.round(performance.now() - startedAt),
+          at: Date.now(),
+        };
+        routeListeners.forEach(listener => listener(lastRoute as ProxyRoute));
+        return data;
+      } catch (error) {
+        console.warn(`Fetch attempt failed for proxy: ${strategy.label}`, error);
+        recordOutcome(strategy.id, false);
+        attempts.push({ strategy: strategy.label, error: toGalleryFetchError(error) });
+      }
+    }
+  }
+
+  console.error('All fetch strategies failed.', attempts);
+  // When every route failed the same way (e.g. offline), that reason is the useful one
+  const lastError = attempts[attempts.length - 1]?.error;
+  if (lastError && attempts.every(attempt => attempt.error.kind === lastError.kind)) throw lastError;
+  throw new AllProxiesFailedError(attempts);
+};
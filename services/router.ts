@@ -0,0 +1,170 @@
+/**
+ * Path-based routing for the gallery. Routes are plain typed objects; this
+ * module is the only place that reads or writes browser history.
+ *
+ *   /                      -> home, Weekly 8 tab
+ *   /weekly | /creative | /favorites
+ *   /exhibit/:id           -> exhibit (Creative Call intro when it has one)
+ *   /exhibit/:id/:slide    -> exhibit at a 1-based slide number
+ *
+ * `?photo=<assetId>` pins the slide to a photo so links survive reordering
+ * (the slide number is the fallback). `?q=` carries the search query,
+ * `?zoom=1` the Lightbox, `?view=grid` the thumbnail overview and `?color=`
+ * the home page's color search. `?lang=` and `?source=` are not routes and
+ * are carried along unchanged. Legacy links (`?exhibit=<id>&slide=<0-based
+ * index>`) still resolve.
+ */
+
+export type HomeTab = 'weekly' | 'creative' | 'favorites';
+
+export interface HomeRoute {
+  name: 'home';
+  tab: HomeTab;
+  query?: string;
+  /** Color search as `#rrggbb`. */
+  color?: string;
+}
+
+export interface ExhibitRoute {
+  name: 'exhibit';
+  exhibitId: string;
+  /** 0-based slide index; omitted to land on the exhibit itself (intro or first slide). */
+  slide?: number;
+  /** assetId of the photo at `slide`; wins over the index when both resolve. */
+  photo?: string;
+  /** Lightbox open on `slide`. */
+  zoom?: boolean;
+  /** Thumbnail grid instead of the carousel. */
+  grid?: boolean;
+  query?: string;
+}
+
+export type AppRoute = HomeRoute | ExhibitRoute;
+
+type RouteListener = (route: AppRoute) => void;
+
+export const HOME_TABS: HomeTab[] = ['weekly', 'creative', 'favorites'];
+export const DEFAULT_ROUTE: AppRoute = { name: 'home', tab: 'weekly' };
+
+// Query params owned by the router; anything else (e.g. `?source=`) is carried along
+const ROUTE_PARAMS = ['exhibit', 'slide', 'photo', 'zoom', 'view', 'q', 'color'];
+
+const basePath = import.meta.env.BASE_URL.replace(/\/$/, '');
+
+const isHomeTab = (value: string | undefined): value is HomeTab =>
+  HOME_TABS.includes(value as HomeTab);
+
+const parseIndex = (raw: string | null | undefined, offset: number): number | undefined => {
+  if (!raw || !/^\d+$/.test(raw)) return undefined;
+  const index = parseInt(raw, 10) - offset;
+  return index >= 0 ? index : undefined;
+};
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/** Resolves a location into a route. Unknown paths fall back to the home page. */
+export const parseLocation = ({ pathname, search }: { pathname: string; search: string }): AppRoute => {
+  const params = new URLSearchParams(search);
+  const query = params.get('q') || undefined;
+  const zoom = params.get('zoom') === '1';
+  const photo = params.get('photo') || undefined;
+  const grid = params.get('view') === 'grid';
+
+  // Legacy query-param deep links
+  const legacyExhibitId = params.get('exhibit');
+  if (legacyExhibitId) {
+    const slide = parseIndex(params.get('slide'), 0) ?? (photo ? 0 : undefined);
+    return { name: 'exhibit', exhibitId: legacyExhibitId, slide, photo, zoom: zoom && slide !== undefined, grid, query };
+  }
+
+  const path = pathname.startsWith(basePath) ? pathname.slice(basePath.length) : pathname;
+  const segments = path.split('/').filter(Boolean).map(decodeSegment);
+
+  if (segments[0] === 'exhibit' && segments[1]) {
+    const slide = parseIndex(segments[2], 1) ?? (photo ? 0 : undefined);
+    return { name: 'exhibit', exhibitId: segments[1], slide, photo, zoom: zoom && slide !== undefined, grid, query };
+  }
+
+  const color = params.get('color');
+  return {
+    name: 'home',
+    tab: isHomeTab(segments[0]) ? segments[0] : DEFAULT_ROUTE.tab,
+    query,
+    color: color && /^[\da-f]{6}$/i.test(color) ? `#${color.toLowerCase()}` : undefined,
+  };
+};
+
+/** Path plus the router's own query params for `route`. */
+export const buildPath = (route: AppRoute, extraParams?: URLSearchParams): string => {
+  const params = new URLSearchParams(extraParams);
+  let path: string;
+
+  if (route.name === 'exhibit') {
+    path = `/exhibit/${encodeURIComponent(route.exhibitId)}`;
+    if (route.slide !== undefined) {
+      path += `/${route.slide + 1}`;
+      if (route.photo) params.set('photo', route.photo);
+      if (route.zoom) params.set('zoom', '1');
+    }
+    if (route.grid) params.set('view', 'grid');
+  } else {
+    path = route.tab === DEFAULT_ROUTE.tab ? '/' : `/${route.tab}`;
+    if (route.color) params.set('color', route.color.replace(/^#/, ''));
+  }
+
+  if (route.query?.trim()) params.set('q', route.query);
+
+  const search = params.toString();
+  return `${basePath}${path}${search ? `?${search}` : ''}`;
+};
+
+/** Absolute URL for sharing, without any of the current page's extra params. */
+export const buildShareUrl = (route: AppRoute): string =>
+  new URL(buildPath({ ...route, query: undefined }), window.location.origin).toString();
+
+export const getCurrentRoute = (): AppRoute => parseLocation(window.location);
+
+/**
+ * Writes `route` to history. Use `replace` for state that should not create
+ * its own back-button entry (scrolling, typing, canonicalizing a legacy URL).
+ */
+export const navigate = (route: AppRoute, { replace = false }: { replace?: boolean } = {}) => {
+  const carried = new URLSearchParams(window.location.search);
+  ROUTE_PARAMS.forEach(param => carried.delete(param));
+
+  const url = buildPath(route, carried);
+  if (url === `${window.location.pathname}${window.location.search}`) return;
+
+  if (replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+};
+
+/**
+ * Sets (or with null, removes) a param that is carried along with every
+ * route, such as `?lang=`, in place and without a history entry.
+ */
+export const setCarriedParam = (name: string, value: string | null) => {
+  if (ROUTE_PARAMS.includes(name)) return;
+  const params = new URLSearchParams(window.location.search);
+  if (value === null) params.delete(name);
+  else params.set(name, value);
+
+  const search = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+};
+
+/** Notifies `listener` on browser back/forward. Returns an unsubscribe function. */
+export const subscribeToRoute = (listener: RouteListener): (() => void) => {
+  const handlePopState = () => listener(getCurrentRoute());
+  window.addEventListener('popstate', handlePopState);
+  return () => window.removeEventListener('popstate', handlePopState);
+};
@@ -0,0 +1,37 @@
+import { readJsonStorage, writeJsonStorage } from './storage';
+
+/**
+ * Autoplay settings for the detail view, persisted so a lobby display keeps
+ * its timing across reloads.
+ */
+
+export interface SlideshowSettings {
+  /** Time each slide stays on screen, in milliseconds. */
+  intervalMs: number;
+  /** Move on to the next exhibit after the last slide instead of looping. */
+  continueToNext: boolean;
+}
+
+const SLIDESHOW_STORAGE_KEY = 'slideshow';
+
+/** Interval choices offered in the UI, in milliseconds. */
+export const SLIDESHOW_INTERVALS = [5000, 8000, 15000, 30000];
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = { intervalMs: 8000, continueToNext: true };
+
+export const loadSlideshowSettings = (): SlideshowSettings => {
+  const parsed = readJsonStorage(SLIDESHOW_STORAGE_KEY) as Partial<SlideshowSettings> | null;
+  if (!parsed) return DEFAULT_SLIDESHOW_SETTINGS;
+  return {
+    intervalMs: typeof parsed.intervalMs === 'number' && parsed.intervalMs > 0
+      ? parsed.intervalMs
+      : DEFAULT_SLIDESHOW_SETTINGS.intervalMs,
+    continueToNext: typeof parsed.continueToNext === 'boolean'
+      ? parsed.continueToNext
+      : DEFAULT_SLIDESHOW_SETTINGS.continueToNext,
+  };
+};
+
+export const saveSlideshowSettings = (settings: SlideshowSettings) => {
+  writeJsonStorage(SLIDESHOW_STORAGE_KEY, settings);
+};
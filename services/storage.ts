@@ -0,0 +1,47 @@
+/**
+ * localStorage access shared by everything the app remembers. Storage may be
+ * unavailable (private mode, disabled cookies) or full, so reads fall back to
+ * null and failed writes only log a warning: nothing persisted is essential.
+ */
+
+interface WriteOptions {
+  /** Skip the warning; for writes that are a pure optimisation and happen often. */
+  quiet?: boolean;
+}
+
+// Every key the app stores lives under this namespace
+const STORAGE_PREFIX = 'polaroid-gallery:';
+
+/** The string stored under `key`, or null when unset or unreadable. */
+export const readStorage = (key: string): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_PREFIX + key);
+  } catch {
+    return null;
+  }
+};
+
+/** Stores `value` under `key`. Returns false when it couldn't be persisted. */
+export const writeStorage = (key: string, value: string, { quiet = false }: WriteOptions = {}): boolean => {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, value);
+    return true;
+  } catch (error) {
+    if (!quiet) console.warn(`Unable to persist "${key}"`, error);
+    return false;
+  }
+};
+
+/** The parsed JSON stored under `key`, or null when unset, unreadable or not JSON. Callers validate the shape. */
+export const readJsonStorage = (key: string): unknown => {
+  const raw = readStorage(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+export const writeJsonStorage = (key: string, value: unknown, options?: WriteOptions) =>
+  writeStorage(key, JSON.stringify(value), options);
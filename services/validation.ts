@@ -0,0 +1,305 @@
+import {
+  APIResponse,
+  ExhibitGroup,
+  ExhibitItem,
+  Gallery,
+  GalleryItem,
+  PortableTextBlock,
+  PortableTextMarkDef,
+  PortableTextSpan,
+  SanityAsset,
+  SanityDimensions,
+  SanityImage,
+  SanityMetadata,
+  SanityPalette,
+  SanityPaletteSwatch,
+  SubmissionGallery,
+  SubmissionItem,
+  SubmissionOverviewSection,
+} from '../types';
+import { PALETTE_SWATCH_KEYS } from '../utils/palette';
+import { ApiValidationError } from './errors';
+
+/**
+ * Runtime checks for the shapes declared in types.ts. Responses come from
+ * third-party proxies and an upstream schema we don't control, so nothing is
+ * trusted: malformed entries are repaired or dropped (with a warning), and a
+ * response whose overall shape is wrong raises ApiValidationError.
+ */
+
+type UnknownRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const warn = (path: string, message: string) => {
+  console.warn(`Malformed gallery data at ${path}: ${message}`);
+};
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const optionalNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const positiveNumber = (value: unknown) => {
+  const number = optionalNumber(value);
+  return number !== undefined && number > 0 ? number : undefined;
+};
+
+// Keeps the entries `validate` accepts; it returns undefined for entries to drop
+const validateList = <T>(value: unknown, path: string, validate: (entry: unknown, path: string) => T | undefined): T[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    warn(path, 'expected a list, ignoring it');
+    return undefined;
+  }
+  return value.flatMap((entry, index) => {
+    const valid = validate(entry, `${path}[${index}]`);
+    return valid === undefined ? [] : [valid];
+  });
+};
+
+const validateSwatch = (value: unknown): SanityPaletteSwatch | undefined => {
+  if (!isRecord(value) || typeof value.background !== 'string') return undefined;
+  return {
+    background: value.background,
+    foreground: optionalString(value.foreground),
+    population: optionalNumber(value.population),
+    title: optionalString(value.title),
+  };
+};
+
+const validatePalette = (value: unknown): SanityPalette | undefined => {
+  if (!isRecord(value)) return undefined;
+  const palette: SanityPalette = {};
+  for (const key of PALETTE_SWATCH_KEYS) {
+    const swatch = validateSwatch(value[key]);
+    if (swatch) palette[key] = swatch;
+  }
+  return palette;
+};
+
+const validateDimensions = (value: unknown): SanityDimensions | undefined => {
+  if (!isRecord(value)) return undefined;
+  const width = positiveNumber(value.width);
+  const height = positiveNumber(value.height);
+  if (!width || !height) return undefined;
+  return { width, height, aspectRatio: positiveNumber(value.aspectRatio) ?? width / height };
+};
+
+const validateMetadata = (value: unknown): SanityMetadata | undefined => {
+  if (!isRecord(value)) return undefined;
+  return {
+    blurHash: optionalString(value.blurHash),
+    palette: validatePalette(value.palette),
+    dimensions: validateDimensions(value.dimensions),
+  };
+};
+
+const validateAsset = (value: unknown): SanityAsset | undefined => {
+  if (!isRecord(value) || typeof value.url !== 'string' || !value.url) return undefined;
+  return {
+    path: optionalString(value.path),
+    url: value.url,
+    assetId: optionalString(value.assetId),
+    metadata: validateMetadata(value.metadata),
+  };
+};
+
+/** An image with a usable asset URL, or undefined. */
+const validateImage = (value: unknown, path: string): SanityImage | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const asset = isRecord(value) ? validateAsset(value.asset) : undefined;
+  if (!asset) {
+    warn(path, 'image without a usable asset URL, dropping it');
+    return undefined;
+  }
+  return { asset };
+};
+
+const validateSpan = (value: unknown): PortableTextSpan | undefined => {
+  if (!isRecord(value) || typeof value.text !== 'string') return undefined;
+  return {
+    _type: 'span',
+    _key: optionalString(value._key),
+    text: value.text,
+    marks: Array.isArray(value.marks) ? value.marks.filter((mark): mark is string => typeof mark === 'string') : undefined,
+  };
+};
+
+const validateBlock = (value: unknown): PortableTextBlock | undefined => {
+  if (!isRecord(value) || value._type !== 'block' || !Array.isArray(value.children)) return undefined;
+  return {
+    _type: 'block',
+    _key: optionalString(value._key),
+    style: optionalString(value.style),
+    children: value.children.flatMap(child => validateSpan(child) || []),
+    markDefs: Array.isArray(value.markDefs)
+      ? value.markDefs.filter(
+          (def): def is PortableTextMarkDef => isRecord(def) && typeof def._type === 'string' && typeof def._key === 'string',
+        )
+      : undefined,
+  };
+};
+
+const validateDescription = (value: unknown, path: string): GalleryItem['desc'] => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.flatMap(block => validateBlock(block) || []);
+  warn(path, 'unsupported description, ignoring it');
+  return undefined;
+};
+
+/**
+ * Repairs one gallery item. Entries are never dropped: pagination offsets are
+ * derived from the number of loaded items, so a broken entry stays as a
+ * placeholder without an image (the carousel already skips those).
+ */
+export const validateGalleryItem = (value: unknown, path: string): GalleryItem => {
+  if (!isRecord(value)) {
+    warn(path, 'gallery item is not an object, keeping an empty placeholder');
+    return {};
+  }
+  return {
+    title: optionalString(value.title),
+    desc: validateDescription(value.desc, `${path}.desc`),
+    image: validateImage(value.image, `${path}.image`),
+    submissionEntryIdentifier: optionalString(value.submissionEntryIdentifier),
+  };
+};
+
+const validateGalleryItems = (value: unknown, path: string) =>
+  validateList(value, path, validateGalleryItem);
+
+const validateGallery = (value: unknown, path: string): Gallery | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    warn(path, 'gallery is not an object, ignoring it');
+    return undefined;
+  }
+  return {
+    title: optionalString(value.title),
+    count: optionalNumber(value.count),
+    galleryItems: validateGalleryItems(value.galleryItems, `${path}.galleryItems`),
+  };
+};
+
+const validateOverviewSection = (value: unknown, path: string): SubmissionOverviewSection | undefined => {
+  if (!isRecord(value)) {
+    warn(path, 'overview section is not an object, dropping it');
+    return undefined;
+  }
+  return {
+    _type: optionalString(value._type),
+    paragraph: optionalString(value.paragraph),
+    subtitle: optionalString(value.subtitle),
+    size: optionalString(value.size),
+    title: optionalString(value.title),
+    images: validateList(value.images, `${path}.images`, validateImage),
+  };
+};
+
+// Identifier and title are required by the UI; a missing title falls back to the identifier
+const validateIdentity = (value: unknown, path: string) => {
+  if (!isRecord(value) || typeof value.identifier !== 'string' || !value.identifier) {
+    warn(path, 'entry without an identifier, dropping it');
+    return undefined;
+  }
+  if (typeof value.title !== 'string') {
+    warn(path, 'missing title, using the identifier');
+  }
+  return {
+    record: value,
+    identifier: value.identifier,
+    title: typeof value.title === 'string' ? value.title : value.identifier,
+  };
+};
+
+export const validateExhibitItem = (value: unknown, path: string): ExhibitItem | undefined => {
+  const identity = validateIdentity(value, path);
+  if (!identity) return undefined;
+  const { record, identifier, title } = identity;
+
+  const creativeCall = isRecord(record.creativeCall) ? record.creativeCall : undefined;
+  return {
+    identifier,
+    title,
+    subtitle: optionalString(record.subtitle),
+    coverImages: validateList(record.coverImages, `${path}.coverImages`, validateImage),
+    gallery: validateGallery(record.gallery, `${path}.gallery`),
+    creativeCall: creativeCall && {
+      beginAt: optionalString(creativeCall.beginAt),
+      endAt: optionalString(creativeCall.endAt),
+      isOngoing: typeof creativeCall.isOngoing === 'boolean' ? creativeCall.isOngoing : undefined,
+      overview: validateList(creativeCall.overview, `${path}.creativeCall.overview`, validateOverviewSection),
+    },
+  };
+};
+
+export const validateSubmissionItem = (value: unknown, path: string): SubmissionItem | undefined => {
+  const identity = validateIdentity(value, path);
+  if (!identity) return undefined;
+  const { record, identifier, title } = identity;
+
+  return {
+    identifier,
+    title,
+    subtitle: optionalString(record.subtitle),
+    beginAt: optionalString(record.beginAt),
+    endAt: optionalString(record.endAt),
+    isOngoing: typeof record.isOngoing === 'boolean' ? record.isOngoing : undefined,
+    heroImage: validateImage(record.heroImage, `${path}.heroImage`),
+    submissionGallery: validateGallery(record.submissionGallery, `${path}.submissionGallery`),
+    allApprovedSubmissionsGallery: validateGallery(
+      record.allApprovedSubmissionsGallery,
+      `${path}.allApprovedSubmissionsGallery`,
+    ),
+    overview: validateList(record.overview, `${path}.overview`, validateOverviewSection),
+  };
+};
+
+const requireList = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw new ApiValidationError('Expected a list', path);
+  return value;
+};
+
+/** Exhibit items of an `exhibits` query result. */
+export const validateExhibitGroups = (value: unknown, path = 'result'): ExhibitGroup[] =>
+  requireList(value, path).flatMap((group, index) => {
+    const groupPath = `${path}[${index}]`;
+    if (!isRecord(group) || !Array.isArray(group.items)) {
+      warn(groupPath, 'exhibit group without items, dropping it');
+      return [];
+    }
+    return [{ items: validateList(group.items, `${groupPath}.items`, validateExhibitItem) || [] }];
+  });
+
+export const validateExhibitItems = (value: unknown, path = 'result'): ExhibitItem[] =>
+  validateList(requireList(value, path), path, validateExhibitItem) || [];
+
+export const validateSubmissionItems = (value: unknown, path = 'result'): SubmissionItem[] =>
+  validateList(requireList(value, path), path, validateSubmissionItem) || [];
+
+/** A single submission gallery, or null when the Creative Call wasn't found. */
+export const validateSubmissionGalleryResult = (value: unknown, path = 'result'): SubmissionGallery | null => {
+  if (value === null) return null;
+  if (!isRecord(value)) throw new ApiValidationError('Expected a submission gallery', path);
+  return validateGallery(value, path) || null;
+};
+
+/**
+ * Checks the GROQ envelope and validates `result` with `validateResult`.
+ * Proxies that answer with their own error JSON fail here rather than in the UI.
+ */
+export const validateApiResponse = <T>(
+  data: unknown,
+  validateResult: (value: unknown, path: string) => T,
+): APIResponse<T> => {
+  if (!isRecord(data)) throw new ApiValidationError('Response is not a JSON object');
+  if (!('result' in data)) throw new ApiValidationError('Response has no result', 'result');
+  return {
+    result: validateResult(data.result, 'result'),
+    ms: optionalNumber(data.ms) ?? 0,
+    query: optionalString(data.query) ?? '',
+  };
+};
@@ -41,12 +41,24 @@ export interface SanityImage {
 
 export interface PortableTextSpan {
   _type: 'span';
+  _key?: string;
   text: string;
+  /** Decorators ('em', 'strong', ...) or keys into the parent block's markDefs. */
+  marks?: string[];
+}
+
+export interface PortableTextMarkDef {
+  _type: string;
+  _key: string;
+  href?: string;
 }
 
 export interface PortableTextBlock {
   _type: 'block';
+  _key?: string;
+  style?: string;
   children: PortableTextSpan[];
+  markDefs?: PortableTextMarkDef[];
 }
 
 export interface GalleryItem {
@@ -58,15 +70,36 @@ export interface GalleryItem {
 
 export interface Gallery {
   title?: string;
+  /** Total number of items upstream; may exceed galleryItems.length when paginated. */
+  count?: number;
   galleryItems?: GalleryItem[];
 }
 
+export interface SubmissionOverviewSection {
+  _type?: string;
+  paragraph?: string;
+  subtitle?: string;
+  size?: string;
+  title?: string;
+  images?: SanityImage[];
+}
+
+/** Creative Call specifics kept alongside the shared ExhibitItem fields. */
+export interface CreativeCallDetails {
+  beginAt?: string;
+  endAt?: string;
+  isOngoing?: boolean;
+  overview?: SubmissionOverviewSection[];
+}
+
 export interface ExhibitItem {
   identifier: string;
   title: string;
   subtitle?: string;
   coverImages?: SanityImage[];
   gallery?: Gallery;
+  /** Present only for Creative Calls. */
+  creativeCall?: CreativeCallDetails;
 }
 
 export interface ExhibitGroup {
@@ -95,12 +128,5 @@ export interface SubmissionItem {
   heroImage?: SanityImage;
   submissionGallery?: SubmissionGallery;
   allApprovedSubmissionsGallery?: SubmissionGallery;
-  overview?: Array<{
-    _type?: string;
-    paragraph?: string;
-    subtitle?: string;
-    size?: string;
-    title?: string;
-    images?: SanityImage[];
-  }>;
+  overview?: SubmissionOverviewSection[];
 }
\ No newline at end of file
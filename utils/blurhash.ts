@@ -0,0 +1,96 @@
+/**
+ * Minimal BlurHash decoder (https://blurha.sh). Produces RGBA pixels that can
+ * be painted to a small canvas and scaled up with CSS.
+ */
+
+const BASE83_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+const decode83 = (str: string) => {
+  let value = 0;
+  for (const char of str) {
+    const digit = BASE83_CHARS.indexOf(char);
+    if (digit === -1) throw new Error(`Invalid BlurHash character "${char}"`);
+    value = value * 83 + digit;
+  }
+  return value;
+};
+
+const sRGBToLinear = (value: number) => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const linearToSRGB = (value: number) => {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255 + 0.5)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+};
+
+const signPow = (value: number, exp: number) => Math.sign(value) * Math.pow(Math.abs(value), exp);
+
+const decodeDC = (value: number) => [
+  sRGBToLinear(value >> 16),
+  sRGBToLinear((value >> 8) & 255),
+  sRGBToLinear(value & 255),
+];
+
+const decodeAC = (value: number, maximumValue: number) => [
+  signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+  signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+  signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+];
+
+export const isValidBlurHash = (hash: string | undefined): hash is string => {
+  if (!hash || hash.length < 6) return false;
+  try {
+    const sizeFlag = decode83(hash[0]);
+    const numX = (sizeFlag % 9) + 1;
+    const numY = Math.floor(sizeFlag / 9) + 1;
+    return hash.length === 4 + 2 * numX * numY;
+  } catch {
+    return false;
+  }
+};
+
+/** Decodes `hash` into width × height RGBA pixels. Throws on malformed input. */
+export const decodeBlurHash = (hash: string, width: number, height: number, punch = 1) => {
+  if (!isValidBlurHash(hash)) throw new Error('Invalid BlurHash');
+
+  const sizeFlag = decode83(hash[0]);
+  const numX = (sizeFlag % 9) + 1;
+  const numY = Math.floor(sizeFlag / 9) + 1;
+  const maximumValue = ((decode83(hash[1]) + 1) / 166) * punch;
+
+  const colors: number[][] = [];
+  for (let i = 0; i < numX * numY; i++) {
+    colors.push(i === 0
+      ? decodeDC(decode83(hash.substring(2, 6)))
+      : decodeAC(decode83(hash.substring(4 + i * 2, 6 + i * 2)), maximumValue));
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < numY; j++) {
+        const basisY = Math.cos((Math.PI * y * j) / height);
+        for (let i = 0; i < numX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * basisY;
+          const color = colors[i + j * numX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const offset = 4 * (x + y * width);
+      pixels[offset] = linearToSRGB(r);
+      pixels[offset + 1] = linearToSRGB(g);
+      pixels[offset + 2] = linearToSRGB(b);
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+};
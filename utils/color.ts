@@ -0,0 +1,182 @@
+/**
+ * Color helpers: parsing, perceptual interpolation in OKLab/OKLCH
+ * (https://bottosson.github.io/posts/oklab/) and WCAG 2.x contrast.
+ */
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface Oklab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export interface Oklch {
+  l: number;
+  c: number;
+  /** Hue in degrees, 0–360. */
+  h: number;
+}
+
+export type InterpolationSpace = 'oklab' | 'oklch';
+
+/** WCAG AA minimum for normal-size text. */
+export const MIN_TEXT_CONTRAST = 4.5;
+
+const WHITE: Rgb = { r: 255, g: 255, b: 255 };
+const BLACK: Rgb = { r: 0, g: 0, b: 0 };
+
+// Below this chroma a color is effectively gray and its hue is meaningless
+const ACHROMATIC_CHROMA = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Parses `#rgb`, `#rrggbb` or `rgb(r, g, b)`. Returns null for anything else. */
+export const parseColor = (input: string | undefined): Rgb | null => {
+  if (!input) return null;
+  const value = input.trim();
+
+  const hex = /^#?([a-f\d])([a-f\d])([a-f\d])$/i.exec(value) || /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(value);
+  if (hex) {
+    const [r, g, b] = hex.slice(1).map(part => parseInt(part.length === 1 ? part + part : part, 16));
+    return { r, g, b };
+  }
+
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/i.exec(value);
+  if (rgb) {
+    const [r, g, b] = rgb.slice(1).map(part => clamp(Math.round(parseFloat(part)), 0, 255));
+    return { r, g, b };
+  }
+
+  return null;
+};
+
+export const toHex = ({ r, g, b }: Rgb) =>
+  `#${[r, g, b].map(channel => clamp(Math.round(channel), 0, 255).toString(16).padStart(2, '0')).join('')}`;
+
+const toCss = ({ r, g, b }: Rgb) => `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+
+const srgbToLinear = (channel: number) => {
+  const v = channel / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const linearToSrgb = (value: number) => {
+  const v = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return clamp(v * 255, 0, 255);
+};
+
+export const rgbToOklab = ({ r, g, b }: Rgb): Oklab => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+};
+
+/** Converts back to sRGB, clipping anything outside the gamut. */
+export const oklabToRgb = ({ l: L, a, b }: Oklab): Rgb => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  return {
+    r: linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  };
+};
+
+export const oklabToOklch = ({ l, a, b }: Oklab): Oklch => {
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return { l, c: Math.hypot(a, b), h: h < 0 ? h + 360 : h };
+};
+
+export const oklchToOklab = ({ l, c, h }: Oklch): Oklab => {
+  const radians = (h * Math.PI) / 180;
+  return { l, a: c * Math.cos(radians), b: c * Math.sin(radians) };
+};
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const mixOklch = (from: Oklch, to: Oklch, t: number): Oklch => {
+  // Grays have no hue of their own: borrow the other color's so the blend doesn't swing through the wheel
+  const fromHue = from.c < ACHROMATIC_CHROMA ? to.h : from.h;
+  const toHue = to.c < ACHROMATIC_CHROMA ? from.h : to.h;
+  // Take the shorter way around the hue circle
+  let delta = toHue - fromHue;
+  if (delta > 180) delta -= 360;
+  else if (delta < -180) delta += 360;
+  const h = (fromHue + delta * t + 360) % 360;
+  return { l: lerp(from.l, to.l, t), c: lerp(from.c, to.c, t), h };
+};
+
+/**
+ * Blends two CSS colors perceptually. `t` runs from 0 (`from`) to 1 (`to`).
+ * Unparseable input falls back to the other color. Returns an `rgb()` string.
+ */
+export const interpolateColor = (from: string, to: string, t: number, space: InterpolationSpace = 'oklch') => {
+  const a = parseColor(from) || parseColor(to) || BLACK;
+  const b = parseColor(to) || a;
+  const factor = clamp(t, 0, 1);
+
+  const labA = rgbToOklab(a);
+  const labB = rgbToOklab(b);
+  const mixed = space === 'oklch'
+    ? oklchToOklab(mixOklch(oklabToOklch(labA), oklabToOklch(labB), factor))
+    : { l: lerp(labA.l, labB.l, factor), a: lerp(labA.a, labB.a, factor), b: lerp(labA.b, labB.b, factor) };
+
+  return toCss(oklabToRgb(mixed));
+};
+
+/** WCAG relative luminance, 0 (black) to 1 (white). */
+export const relativeLuminance = ({ r, g, b }: Rgb) =>
+  0.2126 * srgbToLinear(r) + 0.7152 * srgbToLinear(g) + 0.0722 * srgbToLinear(b);
+
+/** WCAG contrast ratio between two colors, from 1 to 21. */
+export const contrastRatio = (first: Rgb, second: Rgb) => {
+  const a = relativeLuminance(first);
+  const b = relativeLuminance(second);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+};
+
+/**
+ * Text color for `background` that meets `minContrast`. The preferred color
+ * (usually the palette's foreground) is kept when it passes; otherwise its
+ * lightness is pushed toward white or black, keeping its hue, until it does.
+ */
+export const getReadableTextColor = (background: string, preferred?: string, minContrast = MIN_TEXT_CONTRAST) => {
+  const bg = parseColor(background) || BLACK;
+  const wanted = parseColor(preferred);
+  if (wanted && contrastRatio(wanted, bg) >= minContrast) return toHex(wanted);
+
+  // Head for whichever extreme contrasts more with the background
+  const towardLight = contrastRatio(WHITE, bg) >= contrastRatio(BLACK, bg);
+  const extreme = towardLight ? WHITE : BLACK;
+  if (!wanted) return toHex(extreme);
+
+  const lch = oklabToOklch(rgbToOklab(wanted));
+  const steps = 10;
+  for (let step = 1; step <= steps; step++) {
+    const t = step / steps;
+    const candidate = oklabToRgb(oklchToOklab({
+      l: lerp(lch.l, towardLight ? 1 : 0, t),
+      c: lerp(lch.c, 0, t),
+      h: lch.h,
+    }));
+    if (contrastRatio(candidate, bg) >= minContrast) return toHex(candidate);
+  }
+  return toHex(extreme);
+};
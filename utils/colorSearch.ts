@@ -0,0 +1,94 @@
+import { ExhibitItem, GalleryItem } from '../types';
+import { Oklab, parseColor, rgbToOklab, toHex } from './color';
+import { PALETTE_SWATCH_KEYS } from './palette';
+import { t } from '../i18n';
+
+/** Identifier prefix of the virtual exhibit holding color search results. */
+export const COLOR_EXHIBIT_PREFIX = 'color-';
+
+// OKLab distance at which a swatch stops counting as a match (black to white is 1)
+const MAX_DISTANCE = 0.3;
+// Photos below this weighted similarity are left out
+const MIN_SCORE = 0.15;
+const MAX_RESULTS = 60;
+
+interface ColorMatch {
+  item: GalleryItem;
+  score: number;
+}
+
+const distance = (a: Oklab, b: Oklab) => Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+
+/**
+ * Similarity (0–1) of a photo's palette to `target`: each swatch's closeness,
+ * weighted by how much of the image it covers.
+ */
+const scoreItem = (item: GalleryItem, target: Oklab): number => {
+  const palette = item.image?.asset?.metadata?.palette;
+  if (!palette) return 0;
+
+  // `dominant` usually repeats another swatch; count each color once
+  const seen = new Set<string>();
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const key of PALETTE_SWATCH_KEYS) {
+    const swatch = palette[key];
+    const color = parseColor(swatch?.background);
+    if (!color) continue;
+    const hex = toHex(color);
+    if (seen.has(hex)) continue;
+    seen.add(hex);
+
+    const weight = swatch?.population || 1;
+    const similarity = Math.max(0, 1 - distance(rgbToOklab(color), target) / MAX_DISTANCE);
+    weighted += similarity * weight;
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? weighted / totalWeight : 0;
+};
+
+/** Every photo across `exhibits` ranked by closeness to `color`, best first. */
+export const rankItemsByColor = (exhibits: ExhibitItem[], color: string): GalleryItem[] => {
+  const rgb = parseColor(color);
+  if (!rgb) return [];
+  const target = rgbToOklab(rgb);
+
+  const seen = new Set<string>();
+  const matches: ColorMatch[] = [];
+  for (const exhibit of exhibits) {
+    for (const item of exhibit.gallery?.galleryItems || []) {
+      const assetId = item.image?.asset?.assetId;
+      if (!assetId || seen.has(assetId)) continue;
+      seen.add(assetId);
+      const score = scoreItem(item, target);
+      if (score >= MIN_SCORE) matches.push({ item, score });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map(match => match.item);
+};
+
+/** `#rrggbb` encoded in a color exhibit identifier, if any. */
+export const getColorFromExhibitId = (identifier: string) => {
+  if (!identifier.startsWith(COLOR_EXHIBIT_PREFIX)) return null;
+  const color = parseColor(identifier.slice(COLOR_EXHIBIT_PREFIX.length));
+  return color ? toHex(color) : null;
+};
+
+/** Virtual exhibit with the photos closest to `color`, for the regular carousel. */
+export const buildColorExhibit = (exhibits: ExhibitItem[], color: string): ExhibitItem => {
+  const hex = toHex(parseColor(color) || { r: 0, g: 0, b: 0 });
+  const items = rankItemsByColor(exhibits, hex);
+  const title = t('colorSearch.title', { hex });
+  const cover = items[0]?.image;
+  return {
+    identifier: `${COLOR_EXHIBIT_PREFIX}${hex.slice(1)}`,
+    title,
+    subtitle: t('colorSearch.subtitle', { count: items.length }),
+    coverImages: cover ? [cover] : undefined,
+    gallery: { title, galleryItems: items },
+  };
+};
@@ -0,0 +1,53 @@
+import { CreativeCallDetails } from '../types';
+import { getLocale, Locale, t } from '../i18n';
+
+export type CreativeCallStatus = 'upcoming' | 'ongoing' | 'ended';
+
+export const getCreativeCallStatusLabel = (status: CreativeCallStatus) => t(`creativeCall.status.${status}`);
+
+const dateFormats = new Map<Locale, Intl.DateTimeFormat>();
+
+// One formatter per locale, e.g. "May 1, 2024" or "2024年5月1日"
+const getDateFormat = () => {
+  const locale = getLocale();
+  let format = dateFormats.get(locale);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'short', day: 'numeric' });
+    dateFormats.set(locale, format);
+  }
+  return format;
+};
+
+const parseDate = (value: string | undefined) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/** e.g. "May 1, 2024" in the active locale; empty for missing or invalid dates. */
+export const formatDate = (value?: string) => {
+  const date = parseDate(value);
+  return date ? getDateFormat().format(date) : '';
+};
+
+/** e.g. "May 1, 2024 – May 31, 2024"; either side may be missing. */
+export const formatDateRange = (beginAt?: string, endAt?: string) => {
+  const begin = formatDate(beginAt);
+  const end = formatDate(endAt);
+  if (begin && end) return t('date.range', { begin, end });
+  if (begin) return t('date.from', { date: begin });
+  if (end) return t('date.until', { date: end });
+  return '';
+};
+
+/**
+ * Status derived from the call's dates at `now`, so cached data stays accurate.
+ * Falls back to the server-computed `isOngoing` flag when dates are missing.
+ */
+export const getCreativeCallStatus = (call: CreativeCallDetails, now = Date.now()): CreativeCallStatus => {
+  const begin = parseDate(call.beginAt);
+  const end = parseDate(call.endAt);
+  if (begin && begin.getTime() > now) return 'upcoming';
+  if (end) return end.getTime() > now ? 'ongoing' : 'ended';
+  return call.isOngoing ? 'ongoing' : 'ended';
+};
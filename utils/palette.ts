@@ -0,0 +1,24 @@
+import { SanityPalette, SanityPaletteSwatch } from '../types';
+import { t } from '../i18n';
+
+export type PaletteSwatchKey = keyof SanityPalette;
+
+/** Display order for the palette inspector. */
+export const PALETTE_SWATCH_KEYS: PaletteSwatchKey[] = [
+  'dominant',
+  'vibrant',
+  'lightVibrant',
+  'darkVibrant',
+  'muted',
+  'lightMuted',
+  'darkMuted',
+];
+
+export const getSwatchLabel = (key: PaletteSwatchKey) => t(`palette.${key}`);
+
+export const isPaletteSwatchKey = (value: unknown): value is PaletteSwatchKey =>
+  PALETTE_SWATCH_KEYS.includes(value as PaletteSwatchKey);
+
+/** The requested swatch, or `dominant` when the photo's palette lacks it. */
+export const getSwatch = (palette: SanityPalette | undefined, key: PaletteSwatchKey): SanityPaletteSwatch | undefined =>
+  palette?.[key]?.background ? palette[key] : palette?.dominant;
@@ -0,0 +1,11 @@
+import { PortableTextBlock } from '../types';
+
+/** Flattens a description to plain text, one line per block. */
+export const toPlainText = (value: string | PortableTextBlock[] | undefined) => {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  return value
+    .filter(block => block._type === 'block' && block.children)
+    .map(block => block.children.map(span => span.text).join(''))
+    .join('\n');
+};
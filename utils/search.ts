@@ -0,0 +1,88 @@
+import { ExhibitItem, GalleryItem } from '../types';
+import { toPlainText } from './portableText';
+
+export interface SearchHit {
+  exhibit: ExhibitItem;
+  /** Slide index within the exhibit's displayable items; undefined for exhibit-level hits. */
+  slideIndex?: number;
+  item?: GalleryItem;
+  score: number;
+}
+
+interface IndexEntry {
+  exhibit: ExhibitItem;
+  slideIndex?: number;
+  item?: GalleryItem;
+  /** Normalized text fields, strongest signal first. */
+  fields: string[];
+}
+
+export type SearchIndex = IndexEntry[];
+
+// Field weights, matching the order of IndexEntry.fields
+const FIELD_WEIGHTS = [3, 1];
+const MAX_HITS = 60;
+
+// Lowercase and strip diacritics so "cafe" matches "Café"; CJK text is left intact.
+const normalize = (text: string) =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Builds an index over exhibit titles/subtitles and every photo's title and
+ * description. Slide indexes follow the carousel, which skips items without an asset.
+ */
+export const buildSearchIndex = (exhibits: ExhibitItem[]): SearchIndex => {
+  const index: SearchIndex = [];
+  const seen = new Set<string>();
+
+  for (const exhibit of exhibits) {
+    // The same exhibit can appear in several lists; index it once
+    if (seen.has(exhibit.identifier)) continue;
+    seen.add(exhibit.identifier);
+
+    index.push({
+      exhibit,
+      fields: [normalize(exhibit.title || ''), normalize(exhibit.subtitle || '')],
+    });
+
+    const items = exhibit.gallery?.galleryItems?.filter(i => i.image?.asset) || [];
+    items.forEach((item, slideIndex) => {
+      index.push({
+        exhibit,
+        slideIndex,
+        item,
+        fields: [normalize(item.title || ''), normalize(toPlainText(item.desc))],
+      });
+    });
+  }
+
+  return index;
+};
+
+/**
+ * Returns entries containing every whitespace-separated term of `query`,
+ * ranked by where the terms matched (titles outrank descriptions).
+ */
+export const querySearchIndex = (index: SearchIndex, query: string): SearchHit[] => {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const hits: SearchHit[] = [];
+  for (const entry of index) {
+    let score = 0;
+    const matchedAll = terms.every(term => {
+      let matched = false;
+      entry.fields.forEach((field, i) => {
+        if (!field.includes(term)) return;
+        matched = true;
+        score += FIELD_WEIGHTS[i] * (field.startsWith(term) ? 2 : 1);
+      });
+      return matched;
+    });
+    if (matchedAll) {
+      hits.push({ exhibit: entry.exhibit, slideIndex: entry.slideIndex, item: entry.item, score });
+    }
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, MAX_HITS);
+};
@@ -0,0 +1,85 @@
+export interface SharePayload {
+  title: string;
+  text?: string;
+  url: string;
+  /** When set and already prefetched, the image is attached as a file. */
+  imageUrl?: string;
+}
+
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled' | 'failed';
+
+interface PrefetchedImage {
+  imageUrl: string;
+  file: File | null;
+}
+
+// Only the current photo is kept; set once its download settles
+let prefetched: PrefetchedImage | null = null;
+let pendingImageUrl: string | null = null;
+// A failed request (usually CORS) will fail for every photo, so stop trying
+let imageFetchBlocked = false;
+
+const canShareFiles = () => typeof navigator.share === 'function' && typeof navigator.canShare === 'function';
+
+// Downloads the image and wraps it in a File; null if it can't be fetched or shared.
+const loadShareableImage = async (imageUrl: string, title: string): Promise<File | null> => {
+  try {
+    const response = await fetch(imageUrl);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const extension = blob.type.split('/')[1] || 'jpg';
+    const safeName = title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'photo';
+    const file = new File([blob], `${safeName}.${extension}`, { type: blob.type });
+    return navigator.canShare?.({ files: [file] }) ? file : null;
+  } catch {
+    imageFetchBlocked = true;
+    return null;
+  }
+};
+
+/**
+ * Downloads the photo ahead of a share; call it when the user reaches for the
+ * Share button. navigator.share must be called while the click's user
+ * activation is still valid, so sharePhoto only attaches files already here.
+ */
+export const prefetchShareImage = (imageUrl: string, title: string) => {
+  if (!canShareFiles() || imageFetchBlocked) return;
+  if (prefetched?.imageUrl === imageUrl || pendingImageUrl === imageUrl) return;
+
+  prefetched = null;
+  pendingImageUrl = imageUrl;
+  loadShareableImage(imageUrl, title).then(file => {
+    if (pendingImageUrl !== imageUrl) return;
+    pendingImageUrl = null;
+    prefetched = { imageUrl, file };
+  });
+};
+
+export const copyToClipboard = async (text: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Shares via the Web Share API (with the prefetched image file where
+ * supported) and falls back to copying the link to the clipboard.
+ */
+export const sharePhoto = async ({ title, text, url, imageUrl }: SharePayload): Promise<ShareOutcome> => {
+  if (typeof navigator.share === 'function') {
+    const file = imageUrl && prefetched?.imageUrl === imageUrl ? prefetched.file : null;
+    try {
+      await navigator.share(file ? { title, text, url, files: [file] } : { title, text, url });
+      return 'shared';
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+      // Some browsers reject file shares late; fall through to the clipboard.
+      console.warn('Web Share failed, copying link instead', error);
+    }
+  }
+
+  return (await copyToClipboard(url)) ? 'copied' : 'failed';
+};
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Default gallery backend: 'cdn' (live Polaroid API) or 'fixtures' (public/fixtures JSON). */
+  readonly VITE_GALLERY_SOURCE?: string;
+  /** Comma separated proxy chain, e.g. `direct,https://proxy.example.com/?url=`. */
+  readonly VITE_GALLERY_PROXIES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}